@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMusicProvider } from "@/services/music-provider";
+import { musicError, musicErrorResponse } from "../../error-response";
+import { parseCatalogId } from "../../route-params";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseCatalogId((await params).id);
+
+    if (id === null) {
+      return musicError('INVALID_QUERY', 'Invalid album id');
+    }
+
+    const album = await getMusicProvider().getAlbum(id);
+
+    if (!album) {
+      return musicError('NOT_FOUND', 'Album not found');
+    }
+
+    return NextResponse.json(album);
+  } catch (error) {
+    console.error('Album API error:', error);
+    return musicErrorResponse(error, 'Failed to get album');
+  }
+}
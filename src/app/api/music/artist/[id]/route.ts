@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMusicProvider } from "@/services/music-provider";
+import { musicError, musicErrorResponse } from "../../error-response";
+import { parseCatalogId } from "../../route-params";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseCatalogId((await params).id);
+
+    if (id === null) {
+      return musicError('INVALID_QUERY', 'Invalid artist id');
+    }
+
+    const artist = await getMusicProvider().getArtist(id);
+
+    if (!artist) {
+      return musicError('NOT_FOUND', 'Artist not found');
+    }
+
+    return NextResponse.json(artist);
+  } catch (error) {
+    console.error('Artist API error:', error);
+    return musicErrorResponse(error, 'Failed to get artist');
+  }
+}
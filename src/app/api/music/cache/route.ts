@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getSearchCacheStats } from "@/services/music-provider/search-cache";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Exposes hit/miss counters of the in-process music caches
+ */
+export async function GET() {
+  const search = getSearchCacheStats();
+  const lookups = search.hits + search.misses;
+
+  return NextResponse.json({
+    search: {
+      ...search,
+      hitRate: lookups > 0 ? search.hits / lookups : 0,
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CHART_GENRES, resolveChartGenre } from "@/services/music-provider";
+import { getRankedCharts } from "@/services/music-provider/charts";
+import { musicError, musicErrorResponse } from "../error-response";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const genreParam = searchParams.get('genre')?.trim();
+    const genre = genreParam ? resolveChartGenre(genreParam) : CHART_GENRES[0];
+
+    if (!genre) {
+      return musicError(
+        'INVALID_QUERY',
+        `Unknown genre "${genreParam}". Expected one of: ${CHART_GENRES.map((g) => g.name).join(', ')}`
+      );
+    }
+
+    const charts = await getRankedCharts(genre);
+
+    return NextResponse.json(charts, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    console.error('Charts API error:', error);
+    return musicErrorResponse(error, 'Failed to get charts');
+  }
+}
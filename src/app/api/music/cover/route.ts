@@ -0,0 +1,57 @@
+import { readFile } from "node:fs/promises";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCoverImage,
+  isAllowedCoverUrl,
+  renderFallbackCover,
+} from "@/services/music-provider/cover-art";
+import { COVER_PLACEHOLDER_SIZE, parseCoverParams } from "@/services/cover-params";
+import { musicError } from "../error-response";
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const parsed = parseCoverParams(searchParams);
+
+  if (!parsed.success) {
+    return musicError('INVALID_QUERY', parsed.error);
+  }
+
+  const { size, title } = parsed.request;
+  let { url } = parsed.request;
+
+  // Malformed or on a host we don't fetch from: the card still gets a cover
+  if (url && !isAllowedCoverUrl(url)) {
+    console.warn('Cover API refused URL:', url);
+    url = undefined;
+  }
+
+  if (url) {
+    try {
+      const image = await getCoverImage(url, size);
+
+      return new NextResponse(new Uint8Array(await readFile(image.path)), {
+        headers: {
+          'Cache-Control': 'public, max-age=604800, immutable',
+          'Content-Length': String(image.size),
+          'Content-Type': 'image/webp',
+        },
+      });
+    } catch (error) {
+      // Missing art shouldn't break a card: serve the fallback cover instead
+      console.error('Cover API error:', error);
+    }
+  }
+
+  const fallbackSize = size === 'placeholder' ? COVER_PLACEHOLDER_SIZE : size;
+
+  return new NextResponse(renderFallbackCover(title, fallbackSize), {
+    headers: {
+      // Short-lived when the real cover failed, so it's retried soon
+      'Cache-Control': url ? 'public, max-age=300' : 'public, max-age=86400',
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+      'Content-Type': 'image/svg+xml',
+    },
+  });
+}
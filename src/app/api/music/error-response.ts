@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { toMusicApiError } from "@/services/music-provider";
+import {
+  MUSIC_ERROR_STATUS,
+  type MusicErrorBody,
+  type MusicErrorCode,
+} from "@/services/music-errors";
+import { isMalformedTrackError } from "@/services/track";
+
+/**
+ * A coded error response of a music route. The status follows from the code
+ * unless given.
+ */
+export function musicError(
+  code: MusicErrorCode,
+  message: string,
+  { retryAfter, status }: { retryAfter?: number; status?: number } = {},
+) {
+  const body: MusicErrorBody = { error: message, code, retryAfter };
+
+  return NextResponse.json(body, {
+    status: status ?? MUSIC_ERROR_STATUS[code],
+    headers: retryAfter ? { "Retry-After": String(retryAfter) } : undefined,
+  });
+}
+
+/**
+ * Turns an error thrown while serving a music route into a coded JSON
+ * response (see toMusicApiError). Malformed catalog payloads are answered
+ * with a 502 rather than a 503, as retrying won't fix them.
+ */
+export function musicErrorResponse(error: unknown, fallbackMessage: string) {
+  const { code, message, retryAfterSeconds } = toMusicApiError(error, fallbackMessage);
+
+  return musicError(code, message, {
+    retryAfter: retryAfterSeconds,
+    status: isMalformedTrackError(error) ? 502 : undefined,
+  });
+}
@@ -0,0 +1,57 @@
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedPreview } from "@/services/music-provider/preview-cache";
+import { musicError, musicErrorResponse } from "../../error-response";
+import { parseByteRange, parseCatalogId } from "../../route-params";
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseCatalogId((await params).id);
+
+    if (id === null) {
+      return musicError('INVALID_QUERY', 'Invalid track id');
+    }
+
+    const preview = await getCachedPreview(id);
+
+    if (!preview) {
+      return musicError('NOT_FOUND', 'Preview not found');
+    }
+
+    const { size } = preview;
+    const headers = {
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'public, max-age=86400',
+      'Content-Type': 'audio/mpeg',
+    };
+    const range = parseByteRange(request.headers.get('range'), size);
+
+    if (range === null) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 };
+    const body = Readable.toWeb(createReadStream(preview.path, { start, end })) as ReadableStream;
+
+    return new NextResponse(body, {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+      },
+    });
+  } catch (error) {
+    console.error('Preview API error:', error);
+    return musicErrorResponse(error, 'Failed to get preview');
+  }
+}
@@ -1,45 +1,35 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_EXCLUDED_IDS, pickRandomSong } from "@/services/music-provider/random-song";
+import { musicError, musicErrorResponse } from "../error-response";
+import { parseCatalogIdList } from "../route-params";
 
-const MOOD_QUERIES = [
-  "happy upbeat songs",
-  "chill relaxing music",
-  "energetic workout songs",
-  "feel good vibes",
-  "motivational music",
-  "peaceful ambient",
-  "uplifting pop songs",
-  "smooth jazz",
-  "indie feel good",
-  "classic rock hits"
-];
-
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Pick a random mood query
-    const randomQuery = MOOD_QUERIES[Math.floor(Math.random() * MOOD_QUERIES.length)];
-    
-    const response = await fetch(
-      `https://api.deezer.com/search?q=${encodeURIComponent(randomQuery)}&limit=50`
+    const { searchParams } = new URL(request.url);
+    const exclude = parseCatalogIdList(searchParams.get('exclude'), MAX_EXCLUDED_IDS);
+    const excludeArtists = parseCatalogIdList(
+      searchParams.get('excludeArtists'),
+      MAX_EXCLUDED_IDS
     );
 
-    if (!response.ok) {
-      throw new Error(`Deezer API error: ${response.status}`);
+    if (!exclude || !excludeArtists) {
+      return musicError(
+        'INVALID_QUERY',
+        `exclude and excludeArtists must be comma-separated lists of at most ${MAX_EXCLUDED_IDS} ids`
+      );
     }
 
-    const data = await response.json();
-    
-    // Return a random song from the results
-    if (data.data && data.data.length > 0) {
-      const randomTrack = data.data[Math.floor(Math.random() * data.data.length)];
-      return NextResponse.json({ data: [randomTrack] });
-    }
-    
-    return NextResponse.json({ data: [] });
+    const { track, ...pick } = await pickRandomSong({
+      mood: searchParams.get('mood') ?? undefined,
+      genre: searchParams.get('genre') ?? undefined,
+      seed: searchParams.get('seed') ?? undefined,
+      exclude,
+      excludeArtists,
+    });
+
+    return NextResponse.json({ data: track ? [track] : [], ...pick });
   } catch (error) {
     console.error('Random music API error:', error);
-    return NextResponse.json(
-      { error: 'Failed to get random music' },
-      { status: 500 }
-    );
+    return musicErrorResponse(error, 'Failed to get random music');
   }
 }
@@ -0,0 +1,71 @@
+/**
+ * Parses a catalog id from a dynamic route segment. Returns null for
+ * anything that isn't a positive integer.
+ */
+export function parseCatalogId(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Parses a comma-separated list of catalog ids, e.g. from `?exclude=1,2,3`.
+ * Returns null if any entry is invalid or there are more than `maxLength`.
+ */
+export function parseCatalogIdList(
+  value: string | null,
+  maxLength: number
+): number[] | null {
+  if (!value?.trim()) {
+    return [];
+  }
+
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length > maxLength) {
+    return null;
+  }
+
+  const ids = entries.map(parseCatalogId);
+  return ids.every((id) => id !== null) ? (ids as number[]) : null;
+}
+
+export interface ByteRange {
+  start: number;
+  /** Inclusive, like in the Content-Range header */
+  end: number;
+}
+
+/**
+ * Parses a single-range `Range: bytes=...` header against a resource of
+ * `size` bytes. Returns undefined when the header is missing or not a single
+ * byte range (the whole resource is served), and null when the range can't
+ * be satisfied.
+ */
+export function parseByteRange(
+  header: string | null,
+  size: number
+): ByteRange | null | undefined {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  const [, first, last] = match;
+  let start: number;
+  let end: number;
+
+  if (!first) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(last));
+    end = size - 1;
+  } else {
+    start = Number(first);
+    end = last ? Math.min(Number(last), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
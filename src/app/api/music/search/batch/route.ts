@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchBatch } from "@/services/music-provider/batch-search";
+import { parseMusicSearchBatch, type MusicSearchBatch } from "@/services/music-search-params";
+import { musicError, musicErrorResponse } from "../../error-response";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => undefined);
+
+    if (body === undefined) {
+      return musicError('INVALID_QUERY', 'Request body must be JSON: { searches: [...] }');
+    }
+
+    const parsed = parseMusicSearchBatch(body);
+
+    if (!parsed.success) {
+      return musicError('INVALID_QUERY', parsed.error);
+    }
+
+    const batch: MusicSearchBatch = { results: await searchBatch(parsed.requests) };
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    console.error('Batch music search API error:', error);
+    return musicErrorResponse(error, 'Failed to search for music');
+  }
+}
@@ -1,30 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  cachedSearch,
+  SEARCH_CACHE_TTL_SECONDS,
+} from "@/services/music-provider/search-cache";
+import { parseMusicSearchParams } from "@/services/music-search-params";
+import { musicError, musicErrorResponse } from "../error-response";
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const query = searchParams.get('q');
+    const parsed = parseMusicSearchParams(searchParams);
 
-    if (!query) {
-      return NextResponse.json({ error: 'Query parameter is required' }, { status: 400 });
+    if (!parsed.success) {
+      return musicError('INVALID_QUERY', parsed.error);
     }
 
-    // Deezer API is public - no API key needed!
-    const response = await fetch(
-      `https://api.deezer.com/search?q=${encodeURIComponent(query)}&limit=10`
-    );
+    const { response, cacheStatus } = await cachedSearch(parsed.request);
+    const headers = {
+      'Cache-Control': `public, max-age=60, s-maxage=${SEARCH_CACHE_TTL_SECONDS}, stale-while-revalidate=${SEARCH_CACHE_TTL_SECONDS}`,
+      ETag: response.etag,
+      'X-Cache': cacheStatus,
+    };
 
-    if (!response.ok) {
-      throw new Error(`Deezer API error: ${response.status}`);
+    if (request.headers.get('if-none-match') === response.etag) {
+      return new NextResponse(null, { status: 304, headers });
     }
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return new NextResponse(response.body, {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    });
   } catch (error) {
     console.error('Music search API error:', error);
-    return NextResponse.json(
-      { error: 'Failed to search for music' },
-      { status: 500 }
-    );
+    return musicErrorResponse(error, 'Failed to search for music');
   }
 }
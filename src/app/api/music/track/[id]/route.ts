@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMusicProvider } from "@/services/music-provider";
+import { musicError, musicErrorResponse } from "../../error-response";
+import { parseCatalogId } from "../../route-params";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseCatalogId((await params).id);
+
+    if (id === null) {
+      return musicError('INVALID_QUERY', 'Invalid track id');
+    }
+
+    // Always resolved fresh: clients use this to replace expired preview URLs
+    const track = await getMusicProvider().getTrack(id);
+
+    if (!track) {
+      return musicError('NOT_FOUND', 'Track not found');
+    }
+
+    return NextResponse.json(track, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Track details API error:', error);
+    return musicErrorResponse(error, 'Failed to get track details');
+  }
+}
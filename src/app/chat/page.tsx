@@ -1,5 +1,7 @@
 "use client";
 
+import { PlaybackOriginReveal } from "@/components/music/PlaybackOriginReveal";
+import { QueuePanel } from "@/components/music/QueuePanel";
 import { MessageThreadFull } from "@/components/tambo/message-thread-full";
 import { useMcpServers } from "@/components/tambo/mcp-config-modal";
 import { components, tools } from "@/lib/tambo";
@@ -11,7 +13,7 @@ export default function Home() {
   const mcpServers = useMcpServers();
 
   return (
-    <div className="h-screen flex flex-col overflow-hidden relative">
+    <div className="h-[calc(100vh-var(--mini-player-height,0px))] flex overflow-hidden relative">
       <TamboProvider
         apiKey={process.env.NEXT_PUBLIC_TAMBO_API_KEY!}
         components={components}
@@ -19,9 +21,13 @@ export default function Home() {
         tamboUrl={process.env.NEXT_PUBLIC_TAMBO_URL}
       >
         <TamboMcpProvider mcpServers={mcpServers}>
-          <div className="w-full max-w-4xl mx-auto">
-            <MessageThreadFull contextKey="music-chat" />
+          <div className="flex-1 min-w-0">
+            <div className="w-full max-w-4xl mx-auto">
+              <MessageThreadFull contextKey="music-chat" />
+              <PlaybackOriginReveal />
+            </div>
           </div>
+          <QueuePanel />
         </TamboMcpProvider>
       </TamboProvider>
     </div>
@@ -11,6 +11,7 @@ import {
   ThreadContent,
   ThreadContentMessages,
 } from "@/components/tambo/thread-content";
+import { PlaybackOriginReveal } from "@/components/music/PlaybackOriginReveal";
 import { components, tools } from "@/lib/tambo";
 import { TamboProvider } from "@tambo-ai/react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
@@ -27,7 +28,7 @@ export default function InteractablesPage() {
       tools={tools}
       tamboUrl={process.env.NEXT_PUBLIC_TAMBO_URL}
     >
-      <div className="flex h-screen bg-gray-50">
+      <div className="flex h-[calc(100vh-var(--mini-player-height,0px))] bg-gray-50">
         {/* Chat Sidebar */}
         <div
           className={`${
@@ -86,6 +87,7 @@ export default function InteractablesPage() {
           </div>
         </div>
       </div>
+      <PlaybackOriginReveal />
     </TamboProvider>
   );
 }
@@ -1,3 +1,5 @@
+import { MiniPlayer } from "@/components/music/MiniPlayer";
+import { PlayerProvider } from "@/components/music/PlayerProvider";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -19,9 +21,12 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+        className={`${geistSans.variable} ${geistMono.variable} antialiased pb-[var(--mini-player-height,0px)]`}
       >
-        {children}
+        <PlayerProvider>
+          {children}
+          <MiniPlayer />
+        </PlayerProvider>
       </body>
     </html>
   );
@@ -0,0 +1,182 @@
+"use client";
+
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { cn } from "@/lib/utils";
+import { ExternalLink, Play, Square } from "lucide-react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const albumCardSchema = z.object({
+  id: z.number().describe("Album ID"),
+  title: z.string().describe("Album title"),
+  artist: z.string().describe("Artist name"),
+  cover: z.string().optional().describe("Album cover URL"),
+  link: z.string().optional().describe("Album page link"),
+  releaseDate: z.string().optional().describe("Release date (YYYY-MM-DD)"),
+  label: z.string().optional().describe("Record label"),
+  genres: z.array(z.string()).optional().describe("Genre names"),
+  duration: z.number().optional().describe("Total duration in seconds"),
+  tracks: z
+    .array(
+      z.object({
+        id: z.number().describe("Track ID"),
+        title: z.string().describe("Song title"),
+        artist: z.string().optional().describe("Track artist, if not the album artist"),
+        duration: z.number().describe("Duration in seconds"),
+        preview: z.string().describe("Preview URL (30 seconds)"),
+      }),
+    )
+    .describe("Full tracklist in album order"),
+});
+
+export type AlbumCardProps = z.infer<typeof albumCardSchema>;
+
+/**
+ * AlbumCard Component
+ *
+ * Shows an album with its full tracklist. Every row has its own preview
+ * button, and "Play all" plays the previews back to back.
+ */
+export function AlbumCard({
+  title,
+  artist,
+  cover,
+  link,
+  releaseDate,
+  label,
+  genres,
+  duration,
+  tracks,
+}: AlbumCardProps) {
+  const { playingId, loadingId, isPlayingAll, toggle, playAll, stop } =
+    usePreviewPlayer();
+
+  // What players show for an album track while it plays
+  const toPlayerTrack = (track: AlbumCardProps["tracks"][number]) => ({
+    ...track,
+    artist: track.artist ?? artist,
+    album: title,
+    albumCover: cover,
+  });
+
+  if (!title) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  const details = [
+    releaseDate?.slice(0, 4),
+    label,
+    tracks?.length ? `${tracks.length} tracks` : undefined,
+    duration ? formatDuration(duration) : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        {/* album header */}
+        <div className="relative p-4 flex items-center gap-4">
+          <img
+            src={coverUrl(cover, { size: 256, title })}
+            alt={title}
+            className="w-32 h-32 rounded-md object-cover ring-1 ring-gray-600 shrink-0"
+          />
+          <div className="flex-1 min-w-0">
+            <h2 className="text-white text-2xl font-bold leading-tight truncate">
+              {title}
+            </h2>
+            <div className="text-gray-300 truncate font-medium">{artist}</div>
+            {details.length > 0 && (
+              <div className="text-gray-400 text-sm truncate">
+                {details.join(" · ")}
+              </div>
+            )}
+            {genres && genres.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {genres.map((genre) => (
+                  <span
+                    key={genre}
+                    className="rounded-full border border-gray-600 bg-gray-700/50 px-2 py-0.5 text-[11px] text-gray-200"
+                  >
+                    {genre}
+                  </span>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => (isPlayingAll ? stop() : playAll((tracks ?? []).map(toPlayerTrack)))}
+              disabled={!tracks?.length}
+              className="mt-3 inline-flex items-center gap-2 rounded-full border border-gray-600 bg-gray-700/50 px-4 h-9 text-sm font-semibold text-white hover:bg-gray-700/70 transition disabled:opacity-50"
+            >
+              {isPlayingAll ? (
+                <>
+                  <Square className="w-4 h-4" />
+                  Stop
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Play all previews
+                </>
+              )}
+            </button>
+          </div>
+          {link && (
+            <button
+              onClick={() => window.open(link, "_blank")}
+              className="absolute top-2 right-2 h-8 w-8 rounded-full flex items-center justify-center bg-gray-700/50 border border-gray-600 hover:bg-gray-700/70 transition"
+              aria-label="Open album page"
+              title="Open album page"
+            >
+              <ExternalLink className="w-4 h-4 text-white" />
+            </button>
+          )}
+        </div>
+
+        {/* tracklist */}
+        {tracks?.length > 0 && (
+          <ol className="px-4 pb-4 space-y-1">
+            {tracks.map((track, index) => {
+              const isPlaying = playingId === track.id;
+              const isLoading = loadingId === track.id;
+
+              return (
+                <li
+                  key={track.id}
+                  className={cn(
+                    "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                    isPlaying || isLoading ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                  )}
+                >
+                  <span className="w-5 text-right text-xs text-gray-400 font-mono">
+                    {index + 1}
+                  </span>
+                  <PreviewButton
+                    title={track.title}
+                    isPlaying={isPlaying}
+                    isLoading={isLoading}
+                    onClick={() => toggle(toPlayerTrack(track))}
+                    disabled={!track.preview}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white truncate">{track.title}</div>
+                    {track.artist && track.artist !== artist && (
+                      <div className="text-xs text-gray-400 truncate">{track.artist}</div>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-400 font-mono">
+                    {formatDuration(track.duration)}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { cn } from "@/lib/utils";
+import { ExternalLink, Users } from "lucide-react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const artistCardSchema = z.object({
+  id: z.number().describe("Artist ID"),
+  name: z.string().describe("Artist name"),
+  picture: z.string().optional().describe("Artist picture URL"),
+  link: z.string().optional().describe("Artist page link"),
+  fans: z.number().optional().describe("Number of fans"),
+  albumCount: z.number().optional().describe("Number of albums"),
+  topTracks: z
+    .array(
+      z.object({
+        id: z.number().describe("Track ID"),
+        title: z.string().describe("Song title"),
+        album: z.string().describe("Album name"),
+        duration: z.number().describe("Duration in seconds"),
+        preview: z.string().describe("Preview URL (30 seconds)"),
+        albumCover: z.string().optional().describe("Album cover URL"),
+      }),
+    )
+    .describe("The artist's most popular tracks, playable as previews"),
+  albums: z
+    .array(
+      z.object({
+        id: z.number().describe("Album ID"),
+        title: z.string().describe("Album title"),
+        cover: z.string().optional().describe("Album cover URL"),
+        releaseDate: z.string().optional().describe("Release date (YYYY-MM-DD)"),
+      }),
+    )
+    .describe("Albums in the artist's discography"),
+  relatedArtists: z
+    .array(
+      z.object({
+        id: z.number().describe("Artist ID"),
+        name: z.string().describe("Artist name"),
+        picture: z.string().optional().describe("Artist picture URL"),
+      }),
+    )
+    .describe("Similar artists"),
+});
+
+export type ArtistCardProps = z.infer<typeof artistCardSchema>;
+
+const compactNumber = new Intl.NumberFormat("en", { notation: "compact" });
+
+/**
+ * ArtistCard Component
+ *
+ * Shows an artist profile with playable top tracks, albums and related artists.
+ */
+export function ArtistCard({
+  name,
+  picture,
+  link,
+  fans,
+  albumCount,
+  topTracks,
+  albums,
+  relatedArtists,
+}: ArtistCardProps) {
+  const { playingId, loadingId, toggle } = usePreviewPlayer();
+
+  if (!name) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        {/* profile header */}
+        <div className="relative p-4 flex items-center gap-4">
+          {picture && (
+            <img
+              src={picture}
+              alt={name}
+              className="w-24 h-24 rounded-full object-cover ring-1 ring-gray-600 shrink-0"
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            <h2 className="text-white text-2xl font-bold leading-tight truncate">
+              {name}
+            </h2>
+            <div className="mt-1 flex items-center gap-3 text-sm text-gray-300">
+              {fans !== undefined && (
+                <span className="inline-flex items-center gap-1">
+                  <Users className="w-4 h-4" />
+                  {compactNumber.format(fans)} fans
+                </span>
+              )}
+              {albumCount !== undefined && <span>{albumCount} albums</span>}
+            </div>
+          </div>
+          {link && (
+            <button
+              onClick={() => window.open(link, "_blank")}
+              className="absolute top-2 right-2 h-8 w-8 rounded-full flex items-center justify-center bg-gray-700/50 border border-gray-600 hover:bg-gray-700/70 transition"
+              aria-label="Open artist page"
+              title="Open artist page"
+            >
+              <ExternalLink className="w-4 h-4 text-white" />
+            </button>
+          )}
+        </div>
+
+        {/* top tracks */}
+        {topTracks?.length > 0 && (
+          <section className="px-4 pb-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">
+              Top tracks
+            </h3>
+            <ol className="space-y-1">
+              {topTracks.map((track, index) => {
+                const isPlaying = playingId === track.id;
+                const isLoading = loadingId === track.id;
+
+                return (
+                  <li
+                    key={track.id}
+                    className={cn(
+                      "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                      isPlaying ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                    )}
+                  >
+                    <span className="w-4 text-right text-xs text-gray-400 font-mono">
+                      {index + 1}
+                    </span>
+                    <PreviewButton
+                      title={track.title}
+                      isPlaying={isPlaying}
+                      isLoading={isLoading}
+                      onClick={() => toggle({ ...track, artist: name })}
+                      disabled={!track.preview}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-white truncate">{track.title}</div>
+                      <div className="text-xs text-gray-400 truncate">{track.album}</div>
+                    </div>
+                    <span className="text-xs text-gray-400 font-mono">
+                      {formatDuration(track.duration)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        )}
+
+        {/* albums */}
+        {albums?.length > 0 && (
+          <section className="px-4 pb-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">
+              Albums
+            </h3>
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {albums.map((album) => (
+                <div key={album.id} className="w-24 shrink-0">
+                  <img
+                    src={coverUrl(album.cover, { size: 192, title: album.title })}
+                    alt={album.title}
+                    className="w-24 h-24 rounded-md object-cover ring-1 ring-gray-600"
+                  />
+                  <div className="mt-1 text-xs text-white truncate">{album.title}</div>
+                  {album.releaseDate && (
+                    <div className="text-[11px] text-gray-400">
+                      {album.releaseDate.slice(0, 4)}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* related artists */}
+        {relatedArtists?.length > 0 && (
+          <section className="px-4 pb-4">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">
+              Fans also like
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {relatedArtists.map((artist) => (
+                <span
+                  key={artist.id}
+                  className="inline-flex items-center gap-2 rounded-full border border-gray-600 bg-gray-700/50 pl-1 pr-3 py-1 text-xs text-white"
+                >
+                  {artist.picture && (
+                    <img
+                      src={artist.picture}
+                      alt=""
+                      className="w-5 h-5 rounded-full object-cover"
+                    />
+                  )}
+                  {artist.name}
+                </span>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
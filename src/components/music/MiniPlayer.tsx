@@ -0,0 +1,173 @@
+"use client";
+
+import { coverUrl, formatDuration } from "@/services/music-data";
+import {
+  Loader2,
+  MessageSquare,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  X,
+} from "lucide-react";
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect } from "react";
+import { usePlaybackReveal, usePlayerEngine, usePlayerState } from "./PlayerProvider";
+
+// Kept in sync with the bar's height, see --mini-player-height
+const MINI_PLAYER_HEIGHT = "4.5rem";
+
+/**
+ * MiniPlayer Component
+ *
+ * A bar docked to the bottom of every page while a track is loaded, with the
+ * current track, play/pause, seek, previous/next and a link back to the
+ * message the playback was started from. Lives in the root layout, so it
+ * keeps playing across pages and thread switches.
+ *
+ * While shown it sets --mini-player-height on the document, which full-height
+ * layouts subtract so the bar doesn't cover them.
+ */
+export function MiniPlayer() {
+  const player = usePlayerEngine();
+  const { track, status, currentTime, duration, upNext, history, origin, repeat } =
+    usePlayerState();
+  const { requestReveal } = usePlaybackReveal();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const isVisible = track !== null;
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const root = document.documentElement;
+    root.style.setProperty("--mini-player-height", MINI_PLAYER_HEIGHT);
+    return () => {
+      root.style.removeProperty("--mini-player-height");
+    };
+  }, [isVisible]);
+
+  if (!track) {
+    return null;
+  }
+
+  const isPlaying = status === "playing";
+  const isLoading = status === "loading";
+  const pct = Math.min(100, Math.max(0, (currentTime / duration) * 100));
+
+  const goToOrigin = () => {
+    if (!origin) return;
+    requestReveal(origin);
+    if (pathname !== origin.path) {
+      router.push(origin.path);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-x-0 bottom-0 z-50 border-t border-gray-700 bg-gray-900/90 backdrop-blur-xl text-white"
+      style={{ height: MINI_PLAYER_HEIGHT }}
+      role="region"
+      aria-label="Player"
+    >
+      <div className="h-full max-w-4xl mx-auto px-4 flex items-center gap-4">
+        <img
+          src={coverUrl(track.albumCover, { size: 80, title: track.album ?? track.title })}
+          alt=""
+          className="w-12 h-12 rounded object-cover ring-1 ring-gray-600 shrink-0"
+        />
+        <div className="w-40 sm:w-56 min-w-0">
+          <div className="text-sm font-semibold truncate">{track.title ?? "Unknown track"}</div>
+          <div className="text-xs text-gray-400 truncate">{track.artist}</div>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={() => void player.previous()}
+            className="h-8 w-8 rounded-full flex items-center justify-center hover:bg-gray-700/70"
+            aria-label={history.length > 0 ? "Previous track" : "Restart track"}
+          >
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => void player.toggle(track)}
+            disabled={isLoading}
+            className="h-9 w-9 rounded-full flex items-center justify-center border border-gray-600 bg-gray-700/50 hover:bg-gray-700/70 disabled:opacity-60"
+            aria-label={isLoading ? "Loading..." : isPlaying ? "Pause" : "Play"}
+          >
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : isPlaying ? (
+              <Pause className="w-4 h-4" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+          </button>
+          <button
+            onClick={() => void player.next()}
+            disabled={upNext.length === 0 && repeat !== "all"}
+            className="relative h-8 w-8 rounded-full flex items-center justify-center hover:bg-gray-700/70 disabled:opacity-40"
+            aria-label="Next track"
+            title={upNext.length > 0 ? `${upNext.length} up next` : "Queue is empty"}
+          >
+            <SkipForward className="w-4 h-4" />
+            {upNext.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-sky-500 text-[10px] font-semibold leading-4 text-center">
+                {upNext.length}
+              </span>
+            )}
+          </button>
+        </div>
+
+        {/* seek bar */}
+        <div className="hidden sm:flex flex-1 items-center gap-2 min-w-0">
+          <span className="text-[11px] text-gray-400 font-mono w-8 text-right">
+            {formatDuration(Math.floor(currentTime))}
+          </span>
+          <div className="relative flex-1 h-1.5">
+            <div className="absolute inset-0 rounded-full bg-gray-600" />
+            <div
+              className="absolute left-0 top-0 h-1.5 rounded-full bg-white/70"
+              style={{ width: `${pct}%` }}
+            />
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={currentTime}
+              onChange={(e) => player.seek(parseFloat(e.target.value))}
+              disabled={status === "idle" || isLoading}
+              className="absolute inset-0 w-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+              aria-label="Seek"
+            />
+          </div>
+          <span className="text-[11px] text-gray-400 font-mono w-8">
+            {formatDuration(Math.round(duration))}
+          </span>
+        </div>
+
+        <div className="ml-auto flex items-center gap-1 shrink-0">
+          <button
+            onClick={goToOrigin}
+            disabled={!origin}
+            className="h-8 w-8 rounded-full flex items-center justify-center hover:bg-gray-700/70 disabled:opacity-40"
+            aria-label="Go to message"
+            title="Go to message"
+          >
+            <MessageSquare className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => player.close()}
+            className="h-8 w-8 rounded-full flex items-center justify-center hover:bg-gray-700/70"
+            aria-label="Close player"
+            title="Close player"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
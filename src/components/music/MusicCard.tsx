@@ -1,34 +1,16 @@
 "use client";
 
-import { z } from "zod";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useTambo } from "@tambo-ai/react";
+import { coverUrl } from "@/services/music-data";
+import { trackSchema, type Track } from "@/services/track";
+import { usePlayerEngine, usePlayerState } from "./PlayerProvider";
+import { PreviewButton } from "./PreviewButton";
+import { usePlaybackOrigin } from "./use-playback-origin";
 
-export interface MusicCardProps {
-  id: number;
-  title: string;
-  artist: string;
-  album: string;
-  duration: number;
-  preview: string;
-  link: string;
-  artistImage?: string;
-  albumCover?: string;
-  rank?: number;
-}
+export type MusicCardProps = Track;
 
-export const musicCardSchema = z.object({
-  id: z.number().describe("Track ID"),
-  title: z.string().describe("Song title"),
-  artist: z.string().describe("Artist name"),
-  album: z.string().describe("Album name"),
-  duration: z.number().describe("Duration in seconds"),
-  preview: z.string().describe("Preview URL (30 seconds)"),
-  link: z.string().describe("Full song link"),
-  artistImage: z.string().optional().describe("Artist image URL"),
-  albumCover: z.string().optional().describe("Album cover URL"),
-  rank: z.number().optional().describe("Song popularity rank"),
-});
+export const musicCardSchema = trackSchema;
 
 export function MusicCardSkeleton() {
   return (
@@ -104,21 +86,6 @@ export function MusicCardSkeleton() {
   );
 }
 
-function PlayIcon(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
-      <path d="M8 5v14l11-7-11-7z" />
-    </svg>
-  );
-}
-function PauseIcon(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
-      <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
-    </svg>
-  );
-}
-
 function ExternalIcon(props: React.SVGProps<SVGSVGElement>) {
   return (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" {...props}>
@@ -190,6 +157,7 @@ function MusicCardWithLoadingState(props: MusicCardProps) {
 }
 
 function MusicCardCore({
+  id,
   title,
   artist,
   album,
@@ -197,81 +165,36 @@ function MusicCardCore({
   preview,
   link,
   albumCover,
+  albumId,
 }: MusicCardProps) {
-  if (!title || !artist || !preview) return null;
-
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [audio, setAudio] = useState<HTMLAudioElement | null>(null);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [audioDuration, setAudioDuration] = useState(30);
-  const [isLoading, setIsLoading] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    if (isPlaying && audio) {
-      intervalRef.current = setInterval(() => setCurrentTime(audio.currentTime), 100);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isPlaying, audio]);
+  const { sendThreadMessage } = useTambo();
+  const player = usePlayerEngine();
+  const origin = usePlaybackOrigin();
+  // This card is a view onto the app's player: it only shows progress while
+  // its own track is the current one
+  const status = usePlayerState((state) => (state.track?.id === id ? state.status : "idle"));
+  const currentTime = usePlayerState((state) => (state.track?.id === id ? state.currentTime : 0));
+  const audioDuration = usePlayerState((state) => (state.track?.id === id ? state.duration : 30));
+  const isPlaying = status === "playing";
+  const isLoading = status === "loading";
 
   const format = (s: number) =>
     `${Math.floor(s / 60)}:${Math.floor(s % 60).toString().padStart(2, "0")}`;
 
-  const togglePlay = async () => {
-    if (!audio) {
-      setIsLoading(true);
-      const a = new Audio(preview);
-      a.addEventListener("ended", () => {
-        setIsPlaying(false);
-        setCurrentTime(0);
-      });
-      a.addEventListener("loadedmetadata", () => {
-        setAudioDuration(a.duration || 30);
-        setIsLoading(false);
-      });
-      a.addEventListener("error", () => setIsLoading(false));
-      setAudio(a);
-      try {
-        await a.play();
-        setIsPlaying(true);
-      } catch {
-        setIsLoading(false);
-      }
-      return;
-    }
-    if (isPlaying) {
-      audio.pause();
-      setIsPlaying(false);
-    } else {
-      try {
-        await audio.play();
-        setIsPlaying(true);
-      } catch {}
-    }
-  };
+  const togglePlay = () =>
+    void player.toggle(
+      { id, title, artist, album, albumCover, duration, preview, link },
+      { origin },
+    );
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const t = parseFloat(e.target.value);
-    setCurrentTime(t);
-    if (audio) audio.currentTime = t;
+    player.seek(parseFloat(e.target.value));
   };
 
   const pct = Math.min(100, Math.max(0, (currentTime / audioDuration) * 100));
+  // The blurred backdrops only need the tiny placeholder, which also shows
+  // under the cover until it loads
+  const placeholderCover = coverUrl(albumCover, { size: "placeholder", title: album });
 
   return (
     <div className="w-full max-w-full mx-auto p-3">
@@ -312,9 +235,10 @@ function MusicCardCore({
             {/* album cover with glass shine */}
             <div className="relative shrink-0">
               <img
-                src={albumCover || "/default-album.png"}
+                src={coverUrl(albumCover, { size: 256, title: album })}
                 alt={album}
-                className="w-32 h-32 rounded-md object-cover ring-1 ring-gray-600"
+                className="w-32 h-32 rounded-md object-cover ring-1 ring-gray-600 bg-cover"
+                style={{ backgroundImage: `url(${placeholderCover})` }}
               />
                              <div className="pointer-events-none absolute inset-0 rounded-md bg-gradient-to-br from-white/10 via-white/5 to-transparent" />
             </div>
@@ -326,35 +250,35 @@ function MusicCardCore({
                    {title}
                  </h2>
                  <div className="text-gray-300 truncate font-medium">{artist}</div>
-                 <div className="text-gray-300 text-sm truncate">{album}</div>
+                 {albumId ? (
+                   <button
+                     onClick={() =>
+                       void sendThreadMessage(
+                         `Show me the full album "${album}" by ${artist} (album id ${albumId})`,
+                         { streamResponse: true },
+                       )
+                     }
+                     className="block max-w-full text-gray-300 text-sm truncate hover:text-white hover:underline"
+                     title="Show full album"
+                   >
+                     {album}
+                   </button>
+                 ) : (
+                   <div className="text-gray-300 text-sm truncate">{album}</div>
+                 )}
               </div>
 
               {/* controls & slider */}
               <div className="flex items-center gap-3">
-                                 <button
-                   onClick={togglePlay}
-                   disabled={isLoading}
-                                         className={`
-                       group relative h-9 w-9 rounded-full
-                       border border-gray-600 bg-gray-700/50
-                       backdrop-blur-xl
-                       shadow-lg
-                       transition-transform active:scale-[0.97] hover:bg-gray-700/70
-                       disabled:opacity-60 disabled:cursor-not-allowed
-                     `}
-                    aria-label={isLoading ? "Loading..." : isPlaying ? "Pause" : "Play"}
-                  >
-                    <div className="absolute inset-0 rounded-full bg-gradient-to-br from-white/10 to-transparent" />
-                    {isLoading ? (
-                      <div className="relative flex items-center justify-center">
-                        <div className="w-5 h-5 border-2 border-white/40 border-t-white rounded-full animate-spin" />
-                      </div>
-                    ) : isPlaying ? (
-                      <PauseIcon className="relative mx-auto text-white w-6 h-6" />
-                    ) : (
-                      <PlayIcon className="relative mx-auto text-white w-6 h-6" />
-                    )}
-                  </button>
+                <PreviewButton
+                  title={title}
+                  isPlaying={isPlaying}
+                  isLoading={isLoading}
+                  onClick={togglePlay}
+                  disabled={isLoading}
+                  size="lg"
+                  className="backdrop-blur-xl shadow-lg transition-transform active:scale-[0.97]"
+                />
 
                                  <div className="relative flex-1 h-2">
                    {/* track */}
@@ -379,7 +303,7 @@ function MusicCardCore({
                     max={audioDuration}
                     value={currentTime}
                     onChange={handleSeek}
-                    disabled={isLoading || !audio}
+                    disabled={isLoading || status === "idle"}
                     className="absolute inset-0 w-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                   />
                 </div>
@@ -407,7 +331,7 @@ function MusicCardCore({
          <div
            className="absolute inset-0 -z-20 rounded-xl blur-md opacity-70"
            style={{
-             backgroundImage: `url(${albumCover || "/default-album.png"})`,
+             backgroundImage: `url(${placeholderCover})`,
              backgroundSize: "cover",
              backgroundPosition: "center",
            }}
@@ -417,7 +341,7 @@ function MusicCardCore({
          <div
            className="absolute inset-0 -z-10 rounded-xl blur-sm opacity-40"
            style={{
-             backgroundImage: `url(${albumCover || "/default-album.png"})`,
+             backgroundImage: `url(${placeholderCover})`,
              backgroundSize: "120%",
              backgroundPosition: "center",
            }}
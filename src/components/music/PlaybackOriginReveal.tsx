@@ -0,0 +1,37 @@
+"use client";
+
+import { useTamboThread } from "@tambo-ai/react";
+import { useEffect } from "react";
+import { usePlaybackReveal } from "./PlayerProvider";
+
+/**
+ * Scrolls to the message the mini-player links back to, switching threads
+ * first when it's in another one. Rendered inside the TamboProvider of every
+ * page that shows threads; renders nothing.
+ */
+export function PlaybackOriginReveal() {
+  const { pendingReveal, requestReveal } = usePlaybackReveal();
+  const { thread, switchCurrentThread } = useTamboThread();
+
+  useEffect(() => {
+    if (!pendingReveal) return;
+
+    if (thread.id !== pendingReveal.threadId) {
+      switchCurrentThread(pendingReveal.threadId);
+      return;
+    }
+
+    const message = document.querySelector(
+      `[data-message-id="${CSS.escape(pendingReveal.messageId)}"]`,
+    );
+    if (message) {
+      message.scrollIntoView({ behavior: "smooth", block: "center" });
+      requestReveal(null);
+    } else if (!thread.messages.some(({ id }) => id === pendingReveal.messageId)) {
+      // Loaded the thread but the message is gone, e.g. it was deleted
+      if (thread.messages.length > 0) requestReveal(null);
+    }
+  }, [pendingReveal, requestReveal, thread, switchCurrentThread]);
+
+  return null;
+}
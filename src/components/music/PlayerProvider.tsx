@@ -0,0 +1,78 @@
+"use client";
+
+import {
+  getPlayerEngine,
+  type PlaybackOrigin,
+  type PlayerEngine,
+  type PlayerState,
+} from "@/lib/player-engine";
+import * as React from "react";
+
+interface PlayerContextValue {
+  engine: PlayerEngine;
+  /** A message the user asked to go back to, waiting for its thread to show */
+  pendingReveal: PlaybackOrigin | null;
+  requestReveal: (origin: PlaybackOrigin | null) => void;
+}
+
+const PlayerContext = React.createContext<PlayerContextValue | null>(null);
+
+const usePlayerContext = () => {
+  const context = React.useContext(PlayerContext);
+  if (!context) {
+    throw new Error("Player hooks must be used within a PlayerProvider");
+  }
+  return context;
+};
+
+/**
+ * Provides the app's player to track views. Mounted in the root layout so playback keeps
+ * going across pages, thread switches and unmounted cards.
+ */
+export function PlayerProvider({ children }: { children: React.ReactNode }) {
+  const [engine] = React.useState(getPlayerEngine);
+  const [pendingReveal, requestReveal] = React.useState<PlaybackOrigin | null>(null);
+
+  React.useEffect(() => () => engine.destroy(), [engine]);
+
+  const value = React.useMemo(
+    () => ({ engine, pendingReveal, requestReveal }),
+    [engine, pendingReveal],
+  );
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>;
+}
+
+/**
+ * The audio engine, to start, pause or seek playback
+ */
+export function usePlayerEngine(): PlayerEngine {
+  return usePlayerContext().engine;
+}
+
+/**
+ * The player's state, or the part of it `select` picks. Components only
+ * re-render when the selected value changes, so select primitives (e.g. the
+ * status of one track) rather than building new objects.
+ */
+export function usePlayerState(): PlayerState;
+export function usePlayerState<T>(select: (state: PlayerState) => T): T;
+export function usePlayerState<T>(select?: (state: PlayerState) => T): T | PlayerState {
+  const engine = usePlayerEngine();
+  const getSnapshot = () => {
+    const state = engine.getState();
+    return select ? select(state) : state;
+  };
+
+  return React.useSyncExternalStore(engine.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Going back to the message a playback was started from: the mini-player
+ * requests it, and the page showing threads scrolls to the message once it's
+ * rendered, then clears the request
+ */
+export function usePlaybackReveal() {
+  const { pendingReveal, requestReveal } = usePlayerContext();
+  return { pendingReveal, requestReveal };
+}
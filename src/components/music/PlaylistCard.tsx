@@ -0,0 +1,156 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { playlistCovers, playlistSchema } from "@/services/playlist";
+import { ListPlus, Play, Square } from "lucide-react";
+import { z } from "zod";
+import { usePlayerEngine } from "./PlayerProvider";
+import { PreviewButton } from "./PreviewButton";
+import { usePlaybackOrigin } from "./use-playback-origin";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const playlistCardSchema = playlistSchema.partial({
+  id: true,
+  covers: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PlaylistCardProps = z.infer<typeof playlistCardSchema>;
+
+// A single cover until there are enough for a full 2×2 mosaic
+function CoverMosaic({ covers, name }: { covers: string[]; name: string }) {
+  if (covers.length < 4) {
+    return (
+      <img
+        src={coverUrl(covers[0], { size: 256, title: name })}
+        alt={name}
+        className="w-32 h-32 rounded-md object-cover ring-1 ring-gray-600 shrink-0"
+      />
+    );
+  }
+
+  return (
+    <div className="w-32 h-32 rounded-md overflow-hidden ring-1 ring-gray-600 shrink-0 grid grid-cols-2">
+      {covers.map((cover) => (
+        <img key={cover} src={coverUrl(cover, { size: 128 })} alt="" className="w-full h-full object-cover" />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * PlaylistCard Component
+ *
+ * Shows a playlist with its cover mosaic and tracks. Every row has its own
+ * preview button, "Play all" plays the previews back to back and "Add to
+ * queue" appends the tracks to the play queue.
+ */
+export function PlaylistCard({ name, description, covers, tracks, updatedAt }: PlaylistCardProps) {
+  const engine = usePlayerEngine();
+  const origin = usePlaybackOrigin();
+  const { playingId, loadingId, isPlayingAll, toggle, playAll, stop } = usePreviewPlayer();
+
+  if (!name) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  // Props stream in: skip entries that haven't fully arrived yet
+  const readyTracks = (tracks ?? []).filter((track) => track?.id && track.title);
+  const totalDuration = readyTracks.reduce((total, track) => total + track.duration, 0);
+
+  const details = [
+    `${readyTracks.length} tracks`,
+    formatDuration(totalDuration),
+    updatedAt ? `updated ${new Date(updatedAt).toLocaleDateString()}` : undefined,
+  ].filter(Boolean);
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        {/* playlist header */}
+        <div className="p-4 flex items-center gap-4">
+          <CoverMosaic covers={covers?.length ? covers : playlistCovers(readyTracks)} name={name} />
+          <div className="flex-1 min-w-0">
+            <div className="text-[11px] uppercase tracking-wide text-gray-400">Playlist</div>
+            <h2 className="text-white text-2xl font-bold leading-tight truncate">{name}</h2>
+            {description && <div className="text-gray-300 text-sm line-clamp-2">{description}</div>}
+            <div className="text-gray-400 text-sm truncate">{details.join(" · ")}</div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <button
+                onClick={() => (isPlayingAll ? stop() : playAll(readyTracks))}
+                disabled={readyTracks.length === 0}
+                className="inline-flex items-center gap-2 rounded-full border border-gray-600 bg-gray-700/50 px-4 h-9 text-sm font-semibold text-white hover:bg-gray-700/70 transition disabled:opacity-50"
+              >
+                {isPlayingAll ? (
+                  <>
+                    <Square className="w-4 h-4" />
+                    Stop
+                  </>
+                ) : (
+                  <>
+                    <Play className="w-4 h-4" />
+                    Play all
+                  </>
+                )}
+              </button>
+              <button
+                onClick={() => void engine.enqueue(readyTracks, { origin })}
+                disabled={readyTracks.length === 0}
+                className="inline-flex items-center gap-2 rounded-full border border-gray-600 bg-gray-700/50 px-4 h-9 text-sm font-semibold text-white hover:bg-gray-700/70 transition disabled:opacity-50"
+              >
+                <ListPlus className="w-4 h-4" />
+                Add to queue
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* tracklist */}
+        {readyTracks.length > 0 ? (
+          <ol className="px-4 pb-4 space-y-1">
+            {readyTracks.map((track, index) => {
+              const isPlaying = playingId === track.id;
+              const isLoading = loadingId === track.id;
+
+              return (
+                <li
+                  key={track.id}
+                  className={cn(
+                    "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                    isPlaying || isLoading ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                  )}
+                >
+                  <span className="w-5 text-right text-xs text-gray-400 font-mono">
+                    {index + 1}
+                  </span>
+                  <PreviewButton
+                    title={track.title}
+                    isPlaying={isPlaying}
+                    isLoading={isLoading}
+                    onClick={() => toggle(track)}
+                    disabled={!track.preview}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white truncate">{track.title}</div>
+                    <div className="text-xs text-gray-400 truncate">{track.artist}</div>
+                  </div>
+                  <span className="text-xs text-gray-400 font-mono">
+                    {formatDuration(track.duration)}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="px-4 pb-4 text-sm text-gray-400">No tracks yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Loader2, Pause, Play } from "lucide-react";
+
+const SIZES = {
+  sm: { button: "h-7 w-7", icon: "w-3.5 h-3.5" },
+  lg: { button: "h-9 w-9", icon: "w-5 h-5" },
+};
+
+export interface PreviewButtonProps {
+  /** What the button plays, for its label, e.g. "Play Hello" */
+  title: string;
+  isPlaying: boolean;
+  /** Shows a spinner while the preview loads */
+  isLoading: boolean;
+  onClick: () => void;
+  /** E.g. for tracks without a preview */
+  disabled?: boolean;
+  /** "sm" in track rows, "lg" on a single track's card */
+  size?: keyof typeof SIZES;
+  className?: string;
+}
+
+/**
+ * The round play/pause button previewing a track, in track rows and cards
+ */
+export function PreviewButton({
+  title,
+  isPlaying,
+  isLoading,
+  onClick,
+  disabled,
+  size = "sm",
+  className,
+}: PreviewButtonProps) {
+  const { button, icon } = SIZES[size];
+
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "rounded-full flex items-center justify-center border border-gray-600 bg-gray-700/50 hover:bg-gray-700/70 disabled:opacity-50 shrink-0",
+        button,
+        className,
+      )}
+      aria-label={isPlaying ? `Pause ${title}` : `Play ${title}`}
+    >
+      {isLoading ? (
+        <Loader2 className={cn(icon, "text-white animate-spin")} />
+      ) : isPlaying ? (
+        <Pause className={cn(icon, "text-white")} />
+      ) : (
+        <Play className={cn(icon, "text-white")} />
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+import type { PlayerTrack, RepeatMode } from "@/lib/player-engine";
+import { cn } from "@/lib/utils";
+import { coverUrl } from "@/services/music-data";
+import { getPlaylistRepository } from "@/services/playlist-repository";
+import type { Track } from "@/services/track";
+import { Reorder, motion, useDragControls } from "framer-motion";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  GripVertical,
+  ListMusic,
+  ListPlus,
+  Repeat,
+  Repeat1,
+  Shuffle,
+  Trash2,
+  X,
+} from "lucide-react";
+import * as React from "react";
+import { usePlayerEngine, usePlayerState } from "./PlayerProvider";
+
+// How far a row has to be swiped sideways to be removed, in pixels
+const SWIPE_TO_REMOVE_DISTANCE = 96;
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: "all",
+  all: "one",
+  one: "off",
+};
+
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+  off: "Repeat off",
+  all: "Repeat queue",
+  one: "Repeat track",
+};
+
+// Playlists hold full tracks; queued ones may lack what the view that queued
+// them didn't show
+const toPlaylistTrack = (track: PlayerTrack): Track => ({
+  ...track,
+  title: track.title ?? "Unknown track",
+  artist: track.artist ?? "",
+  album: track.album ?? "",
+  duration: track.duration ?? 0,
+  link: track.link ?? "",
+});
+
+type SaveStatus =
+  | { state: "idle" }
+  | { state: "editing"; name: string }
+  | { state: "saving" }
+  | { state: "saved"; name: string }
+  | { state: "failed"; message: string };
+
+/**
+ * QueuePanel Component
+ *
+ * A collapsible "Up next" sidebar mirroring the player's queue, the same one
+ * the queue tools read and change. Rows can be dragged by their handle to
+ * reorder, swiped sideways or removed with their button, and the queue can
+ * be shuffled, repeated, cleared or saved as a playlist.
+ */
+export function QueuePanel({ className }: { className?: string }) {
+  const player = usePlayerEngine();
+  const track = usePlayerState((state) => state.track);
+  const upNext = usePlayerState((state) => state.upNext);
+  const repeat = usePlayerState((state) => state.repeat);
+  const [isCollapsed, setIsCollapsed] = React.useState(false);
+  const [save, setSave] = React.useState<SaveStatus>({ state: "idle" });
+
+  const tracks = track ? [track, ...upNext] : upNext;
+
+  const saveAsPlaylist = async (name: string) => {
+    setSave({ state: "saving" });
+    try {
+      const playlist = await getPlaylistRepository().create({
+        name,
+        tracks: tracks.map(toPlaylistTrack),
+      });
+      setSave({ state: "saved", name: playlist.name });
+    } catch (error) {
+      console.error("Failed to save the queue as a playlist:", error);
+      setSave({ state: "failed", message: "Couldn't save the playlist" });
+    }
+  };
+
+  return (
+    <aside
+      className={cn(
+        "border-l border-flat bg-container h-full shrink-0 flex flex-col transition-all duration-300",
+        isCollapsed ? "w-12 p-2" : "w-72 p-4",
+        className,
+      )}
+      aria-label="Up next"
+    >
+      <div className={cn("flex items-center justify-between mb-3", isCollapsed ? "p-1" : "p-2")}>
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="bg-container hover:bg-backdrop transition-colors p-1 rounded-md cursor-pointer"
+          aria-label={isCollapsed ? "Expand queue" : "Collapse queue"}
+        >
+          {isCollapsed ? (
+            <ArrowLeftToLine className="h-4 w-4" />
+          ) : (
+            <ArrowRightToLine className="h-4 w-4" />
+          )}
+        </button>
+        {!isCollapsed && (
+          <h2 className="text-sm text-muted-foreground">
+            Up next{upNext.length > 0 && ` · ${upNext.length}`}
+          </h2>
+        )}
+      </div>
+
+      {isCollapsed ? (
+        <div className="relative mx-auto p-1 text-muted-foreground" title={`${upNext.length} up next`}>
+          <ListMusic className="h-4 w-4" />
+          {upNext.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-sky-500 text-[10px] font-semibold leading-4 text-center text-white">
+              {upNext.length}
+            </span>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* queue actions */}
+          <div className="flex items-center gap-1 px-2 mb-3">
+            <button
+              onClick={() => player.shuffleQueue()}
+              disabled={upNext.length < 2}
+              className="p-1.5 rounded-md hover:bg-backdrop disabled:opacity-40"
+              aria-label="Shuffle queue"
+              title="Shuffle queue"
+            >
+              <Shuffle className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => player.setRepeat(NEXT_REPEAT_MODE[repeat])}
+              className={cn(
+                "p-1.5 rounded-md hover:bg-backdrop",
+                repeat !== "off" && "text-sky-600",
+              )}
+              aria-label={REPEAT_LABELS[repeat]}
+              title={REPEAT_LABELS[repeat]}
+            >
+              {repeat === "one" ? <Repeat1 className="h-4 w-4" /> : <Repeat className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={() => player.clearQueue()}
+              disabled={upNext.length === 0}
+              className="p-1.5 rounded-md hover:bg-backdrop disabled:opacity-40"
+              aria-label="Clear queue"
+              title="Clear queue"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() =>
+                setSave({
+                  state: "editing",
+                  name: `Queue · ${new Date().toLocaleDateString()}`,
+                })
+              }
+              disabled={tracks.length === 0 || save.state === "saving"}
+              className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs hover:bg-backdrop disabled:opacity-40"
+              title="Save the current track and queue as a playlist"
+            >
+              <ListPlus className="h-4 w-4" />
+              Save as playlist
+            </button>
+          </div>
+
+          {save.state === "editing" ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (save.name.trim()) void saveAsPlaylist(save.name.trim());
+              }}
+              className="flex items-center gap-1 px-2 mb-3"
+            >
+              <input
+                autoFocus
+                value={save.name}
+                onChange={(e) => setSave({ state: "editing", name: e.target.value })}
+                className="flex-1 min-w-0 rounded-md border border-flat bg-background px-2 py-1 text-xs"
+                aria-label="Playlist name"
+              />
+              <button
+                type="submit"
+                disabled={!save.name.trim()}
+                className="px-2 py-1 rounded-md text-xs bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-40"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                onClick={() => setSave({ state: "idle" })}
+                className="p-1 rounded-md hover:bg-backdrop"
+                aria-label="Cancel"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </form>
+          ) : (
+            save.state !== "idle" && (
+              <p
+                className={cn(
+                  "px-2 mb-3 text-xs",
+                  save.state === "failed" ? "text-red-600" : "text-muted-foreground",
+                )}
+                role="status"
+              >
+                {save.state === "saving" && "Saving…"}
+                {save.state === "saved" && `Saved as "${save.name}"`}
+                {save.state === "failed" && save.message}
+              </p>
+            )
+          )}
+
+          {track && (
+            <div className="px-2 mb-2">
+              <div className="text-[11px] uppercase tracking-wide text-muted-foreground mb-1">
+                Now playing
+              </div>
+              <QueueRow track={track} />
+            </div>
+          )}
+
+          <div className="flex-1 min-h-0 overflow-y-auto px-2">
+            {upNext.length === 0 ? (
+              <p className="text-xs text-muted-foreground py-4 text-center">
+                The queue is empty. Ask the assistant to queue some songs.
+              </p>
+            ) : (
+              <Reorder.Group
+                axis="y"
+                values={upNext}
+                onReorder={(order) => player.reorderQueue(order)}
+                className="space-y-1"
+              >
+                {upNext.map((queued) => (
+                  <QueueItem
+                    key={queueKey(queued)}
+                    track={queued}
+                    onRemove={() => player.removeFromQueue(queued)}
+                  />
+                ))}
+              </Reorder.Group>
+            )}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+}
+
+// Stable React keys for queued tracks, which are unique objects but can
+// share a track id
+const queueKeys = new WeakMap<PlayerTrack, number>();
+let lastQueueKey = 0;
+
+function queueKey(track: PlayerTrack): number {
+  let key = queueKeys.get(track);
+  if (key === undefined) {
+    key = ++lastQueueKey;
+    queueKeys.set(track, key);
+  }
+  return key;
+}
+
+function QueueItem({ track, onRemove }: { track: PlayerTrack; onRemove: () => void }) {
+  const dragControls = useDragControls();
+
+  return (
+    <Reorder.Item value={track} dragListener={false} dragControls={dragControls}>
+      <motion.div
+        drag="x"
+        dragConstraints={{ left: 0, right: 0 }}
+        dragElastic={0.6}
+        onDragEnd={(_, info) => {
+          if (Math.abs(info.offset.x) > SWIPE_TO_REMOVE_DISTANCE) onRemove();
+        }}
+        className="flex items-center gap-1 rounded-md bg-container hover:bg-backdrop"
+      >
+        <button
+          onPointerDown={(e) => dragControls.start(e)}
+          className="p-1 cursor-grab active:cursor-grabbing text-muted-foreground touch-none"
+          aria-label={`Drag to reorder ${track.title ?? "track"}`}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <QueueRow track={track} className="flex-1" />
+        <button
+          onClick={onRemove}
+          className="p-1 rounded-md text-muted-foreground hover:text-foreground"
+          aria-label={`Remove ${track.title ?? "track"} from the queue`}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </motion.div>
+    </Reorder.Item>
+  );
+}
+
+function QueueRow({ track, className }: { track: PlayerTrack; className?: string }) {
+  return (
+    <div className={cn("flex items-center gap-2 min-w-0 py-1", className)}>
+      <img
+        src={coverUrl(track.albumCover, { size: 64, title: track.album ?? track.title })}
+        alt=""
+        className="w-8 h-8 rounded object-cover shrink-0"
+        draggable={false}
+      />
+      <div className="min-w-0">
+        <div className="text-sm truncate">{track.title ?? "Unknown track"}</div>
+        <div className="text-xs text-muted-foreground truncate">{track.artist}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { trackSchema } from "@/services/track";
+import { AlertCircle, ExternalLink, ListMusic } from "lucide-react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const searchResultListSchema = z.object({
+  title: z.string().optional().describe("List title, e.g. \"Your songs\""),
+  results: z
+    .array(
+      z.object({
+        query: z.string().describe("What was searched for, as the user asked for it"),
+        track: trackSchema.optional().describe("Best match; missing when nothing was found"),
+        error: z.string().optional().describe("Why nothing was found"),
+      }),
+    )
+    .describe("One entry per requested song, in the order asked for"),
+});
+
+export type SearchResultListProps = z.infer<typeof searchResultListSchema>;
+
+/**
+ * SearchResultList Component
+ *
+ * The songs found for a multi-song request, one row per requested song.
+ * Songs that couldn't be found keep their row, with the reason.
+ */
+export function SearchResultList({ title, results }: SearchResultListProps) {
+  const { playingId, loadingId, toggle } = usePreviewPlayer();
+
+  if (!results) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  const found = results.filter((result) => result.track).length;
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        <div className="p-4 pb-2 flex items-center gap-2">
+          <ListMusic className="w-5 h-5 text-sky-400" />
+          <h2 className="text-white text-lg font-bold leading-tight truncate">
+            {title ?? "Songs"}
+          </h2>
+          <span className="ml-auto text-xs text-gray-400 shrink-0">
+            {found} of {results.length} found
+          </span>
+        </div>
+
+        <ol className="px-4 pb-4 space-y-1">
+          {results.map(({ query, track, error }, index) => {
+            if (!track) {
+              return (
+                <li
+                  key={`${index}-${query}`}
+                  className="flex items-center gap-3 rounded-md px-2 py-1.5"
+                >
+                  <span className="w-6 text-right text-sm font-bold text-gray-500 font-mono">
+                    {index + 1}
+                  </span>
+                  <span className="w-10 h-10 rounded flex items-center justify-center bg-gray-700/40 ring-1 ring-gray-700 shrink-0">
+                    <AlertCircle className="w-4 h-4 text-red-400" />
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-300 truncate">{query}</div>
+                    <div className="text-xs text-red-300/80 truncate">{error ?? "Not found"}</div>
+                  </div>
+                </li>
+              );
+            }
+
+            const isPlaying = playingId === track.id;
+            const isLoading = loadingId === track.id;
+
+            return (
+              <li
+                key={`${index}-${track.id}`}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                  isPlaying || isLoading ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                )}
+              >
+                <span className="w-6 text-right text-sm font-bold text-white font-mono">
+                  {index + 1}
+                </span>
+                <img
+                  src={coverUrl(track.albumCover, { size: 80, title: track.album })}
+                  alt=""
+                  className="w-10 h-10 rounded object-cover ring-1 ring-gray-600 shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{track.title}</div>
+                  <div className="text-xs text-gray-400 truncate">{track.artist}</div>
+                </div>
+                <span className="text-xs text-gray-400 font-mono shrink-0">
+                  {formatDuration(track.duration)}
+                </span>
+                <PreviewButton
+                  title={track.title}
+                  isPlaying={isPlaying}
+                  isLoading={isLoading}
+                  onClick={() => toggle(track)}
+                  disabled={!track.preview}
+                />
+                <button
+                  onClick={() => window.open(track.link, "_blank")}
+                  className="h-7 w-7 rounded-full flex items-center justify-center border border-gray-600 bg-gray-700/50 hover:bg-gray-700/70"
+                  aria-label={`Open ${track.title}`}
+                  title="Open on Deezer"
+                >
+                  <ExternalLink className="w-3.5 h-3.5 text-white" />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
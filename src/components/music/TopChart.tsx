@@ -0,0 +1,196 @@
+"use client";
+
+import { Graph } from "@/components/tambo/graph";
+import { cn } from "@/lib/utils";
+import { coverUrl } from "@/services/music-data";
+import { ArrowDown, ArrowUp, ExternalLink, Minus, Trophy } from "lucide-react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const topChartSchema = z.object({
+  title: z.string().describe("Chart title, e.g. \"Top tracks · Rock\""),
+  type: z.enum(["tracks", "albums", "artists"]).describe("What the chart ranks"),
+  entries: z
+    .array(
+      z.object({
+        id: z.number().describe("Track, album or artist ID"),
+        position: z.number().describe("Chart position, starting at 1"),
+        movement: z
+          .number()
+          .nullable()
+          .optional()
+          .describe(
+            "Places gained (positive) or lost (negative) since the previous chart, null when unknown",
+          ),
+        isNew: z.boolean().optional().describe("Whether the entry is new in the chart"),
+        title: z.string().describe("Track title, album title or artist name"),
+        subtitle: z.string().optional().describe("Artist name for tracks and albums"),
+        image: z.string().optional().describe("Cover or artist picture URL"),
+        link: z.string().optional().describe("Page link"),
+        preview: z.string().optional().describe("Preview URL (30 seconds), tracks only"),
+        rank: z.number().optional().describe("Popularity rank, tracks only"),
+      }),
+    )
+    .describe("Chart entries in position order"),
+});
+
+export type TopChartProps = z.infer<typeof topChartSchema>;
+
+type TopChartEntry = TopChartProps["entries"][number];
+
+function MovementBadge({ movement, isNew }: Pick<TopChartEntry, "movement" | "isNew">) {
+  if (isNew) {
+    return (
+      <span className="rounded-full bg-sky-500/20 px-1.5 py-0.5 text-[10px] font-bold text-sky-300">
+        NEW
+      </span>
+    );
+  }
+
+  // Unknown, e.g. there's no previous chart to compare with
+  if (movement === null || movement === undefined) return null;
+
+  if (movement === 0) {
+    return (
+      <span className="text-gray-500" title="No change">
+        <Minus className="w-3.5 h-3.5" />
+      </span>
+    );
+  }
+
+  const isUp = movement > 0;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center text-xs font-semibold",
+        isUp ? "text-green-400" : "text-red-400",
+      )}
+      title={`${isUp ? "Up" : "Down"} ${Math.abs(movement)}`}
+    >
+      {isUp ? <ArrowUp className="w-3.5 h-3.5" /> : <ArrowDown className="w-3.5 h-3.5" />}
+      {Math.abs(movement)}
+    </span>
+  );
+}
+
+/**
+ * TopChart Component
+ *
+ * A ranked chart of tracks, albums or artists with rank-movement badges.
+ * Track charts can be previewed and come with a popularity bar chart.
+ */
+export function TopChart({ title, type, entries }: TopChartProps) {
+  const { playingId, loadingId, toggle } = usePreviewPlayer();
+
+  if (!entries) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  const rankedEntries = entries.filter((entry) => entry.rank);
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        <div className="p-4 pb-2 flex items-center gap-2">
+          <Trophy className="w-5 h-5 text-yellow-400" />
+          <h2 className="text-white text-lg font-bold leading-tight truncate">{title}</h2>
+        </div>
+
+        <ol className="px-4 pb-4 space-y-1">
+          {entries.map((entry) => {
+            const isPlaying = playingId === entry.id;
+            const isLoading = loadingId === entry.id;
+            const { preview } = entry;
+
+            return (
+              <li
+                key={entry.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                  isPlaying || isLoading ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                )}
+              >
+                <span className="w-6 text-right text-sm font-bold text-white font-mono">
+                  {entry.position}
+                </span>
+                <span className="w-8 flex justify-center">
+                  <MovementBadge movement={entry.movement} isNew={entry.isNew} />
+                </span>
+                <img
+                  src={coverUrl(entry.image, { size: 80, title: entry.title })}
+                  alt=""
+                  className={cn(
+                    "w-10 h-10 object-cover ring-1 ring-gray-600 shrink-0",
+                    type === "artists" ? "rounded-full" : "rounded",
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-white truncate">{entry.title}</div>
+                  {entry.subtitle && (
+                    <div className="text-xs text-gray-400 truncate">{entry.subtitle}</div>
+                  )}
+                </div>
+                {type === "tracks" && (
+                  <PreviewButton
+                    title={entry.title}
+                    isPlaying={isPlaying}
+                    isLoading={isLoading}
+                    onClick={() =>
+                      preview &&
+                      toggle({
+                        id: entry.id,
+                        preview,
+                        title: entry.title,
+                        artist: entry.subtitle,
+                        albumCover: entry.image,
+                      })
+                    }
+                    disabled={!preview}
+                  />
+                )}
+                {entry.link && (
+                  <button
+                    onClick={() => window.open(entry.link, "_blank")}
+                    className="h-7 w-7 rounded-full flex items-center justify-center border border-gray-600 bg-gray-700/50 hover:bg-gray-700/70"
+                    aria-label={`Open ${entry.title}`}
+                    title="Open page"
+                  >
+                    <ExternalLink className="w-3.5 h-3.5 text-white" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* popularity of the charted tracks */}
+        {type === "tracks" && rankedEntries.length > 1 && (
+          <div className="px-4 pb-4">
+            <Graph
+              title="Popularity"
+              size="sm"
+              variant="bordered"
+              showLegend={false}
+              data={{
+                type: "bar",
+                labels: rankedEntries.map((entry) => `#${entry.position}`),
+                datasets: [
+                  {
+                    label: "Rank",
+                    data: rankedEntries.map((entry) => entry.rank ?? 0),
+                  },
+                ],
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
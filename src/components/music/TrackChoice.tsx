@@ -0,0 +1,124 @@
+"use client";
+
+import type { DataCardState } from "@/components/ui/card-data";
+import { cn } from "@/lib/utils";
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { trackSchema, type Track } from "@/services/track";
+import { useTambo, useTamboComponentState } from "@tambo-ai/react";
+import { Check, HelpCircle } from "lucide-react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const trackChoiceSchema = z.object({
+  question: z
+    .string()
+    .optional()
+    .describe("Question shown above the choices, e.g. \"Which \\\"Hello\\\" did you mean?\""),
+  choices: z.array(trackSchema).describe("Tracks to choose from, best match first"),
+});
+
+export type TrackChoiceProps = z.infer<typeof trackChoiceSchema>;
+
+/**
+ * TrackChoice Component
+ *
+ * Lets the user pick one of several tracks when a search is ambiguous. The
+ * pick is kept in the same selection state as DataCard, so the choice stays
+ * marked when the thread is reloaded, and sent to the thread as a message for
+ * the assistant to continue with.
+ */
+export function TrackChoice({ question, choices }: TrackChoiceProps) {
+  const { sendThreadMessage } = useTambo();
+  const { playingId, loadingId, toggle, stop } = usePreviewPlayer();
+  const [state, setState] = useTamboComponentState<DataCardState>("track-choice", {
+    selectedValues: [],
+  });
+
+  if (!choices) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  // Props stream in: skip entries that haven't fully arrived yet
+  const tracks = choices.filter((track) => track?.id && track.title);
+  const [selectedValue] = state?.selectedValues ?? [];
+
+  const choose = (track: Track) => {
+    if (!state || selectedValue) return;
+
+    stop();
+    setState({ selectedValues: [String(track.id)] });
+    void sendThreadMessage(`I meant "${track.title}" by ${track.artist}`, {
+      streamResponse: true,
+    });
+  };
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        <div className="p-4 pb-2 flex items-center gap-2">
+          <HelpCircle className="w-5 h-5 text-sky-400" />
+          <h2 className="text-white text-lg font-bold leading-tight truncate">
+            {question ?? "Which one did you mean?"}
+          </h2>
+        </div>
+
+        <ul className="px-4 pb-4 space-y-1">
+          {tracks.map((track) => {
+            const isSelected = selectedValue === String(track.id);
+            const isPlaying = playingId === track.id;
+            const isLoading = loadingId === track.id;
+
+            return (
+              <li
+                key={track.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                  isSelected
+                    ? "bg-sky-500/20 ring-1 ring-sky-500/60"
+                    : selectedValue
+                      ? "opacity-50"
+                      : "hover:bg-gray-700/40",
+                )}
+              >
+                <button
+                  onClick={() => choose(track)}
+                  disabled={!!selectedValue}
+                  className="flex-1 min-w-0 flex items-center gap-3 text-left disabled:cursor-default"
+                  aria-label={`Choose ${track.title} by ${track.artist}`}
+                >
+                  <img
+                    src={coverUrl(track.albumCover, { size: 80, title: track.album })}
+                    alt=""
+                    className="w-10 h-10 rounded object-cover ring-1 ring-gray-600 shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white truncate">{track.title}</div>
+                    <div className="text-xs text-gray-400 truncate">
+                      {track.artist} · {track.album}
+                    </div>
+                  </div>
+                  <span className="text-xs text-gray-400 font-mono shrink-0">
+                    {formatDuration(track.duration)}
+                  </span>
+                  {isSelected && <Check className="w-4 h-4 text-sky-400 shrink-0" />}
+                </button>
+                <PreviewButton
+                  title={track.title}
+                  isPlaying={isPlaying}
+                  isLoading={isLoading}
+                  onClick={() => toggle(track)}
+                  disabled={!track.preview}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
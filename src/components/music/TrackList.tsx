@@ -0,0 +1,208 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { coverUrl, formatDuration } from "@/services/music-data";
+import { trackSchema, type Track } from "@/services/track";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronsUpDown,
+  ExternalLink,
+  ListMusic,
+  Play,
+  Square,
+} from "lucide-react";
+import { useMemo, useState } from "react";
+import { z } from "zod";
+import { PreviewButton } from "./PreviewButton";
+import { usePreviewPlayer } from "./use-preview-player";
+
+export const trackListSchema = z.object({
+  title: z.string().optional().describe("List title, e.g. \"Radiohead essentials\""),
+  tracks: z.array(trackSchema).describe("Tracks in their initial order"),
+});
+
+export type TrackListProps = z.infer<typeof trackListSchema>;
+
+type SortKey = "position" | "title" | "artist" | "album" | "duration";
+
+interface Sort {
+  key: SortKey;
+  direction: "asc" | "desc";
+}
+
+const COLUMNS: { key: SortKey; label: string; className: string }[] = [
+  { key: "position", label: "#", className: "w-6 justify-end" },
+  { key: "title", label: "Title", className: "flex-1 min-w-0" },
+  { key: "artist", label: "Artist", className: "w-32 hidden sm:flex" },
+  { key: "album", label: "Album", className: "w-36 hidden md:flex" },
+  { key: "duration", label: "Time", className: "w-12 justify-end" },
+];
+
+function sortTracks(tracks: Track[], { key, direction }: Sort): Track[] {
+  const sign = direction === "asc" ? 1 : -1;
+  const compare = (a: Track, b: Track) =>
+    key === "duration"
+      ? a.duration - b.duration
+      : key === "position"
+        ? tracks.indexOf(a) - tracks.indexOf(b)
+        : (a[key] ?? "").localeCompare(b[key] ?? "", undefined, { sensitivity: "base" });
+
+  return [...tracks].sort((a, b) => sign * compare(a, b));
+}
+
+/**
+ * TrackList Component
+ *
+ * A compact list of tracks for answers with many results. Columns sort on
+ * click (a second click reverses), every row has a preview button, and
+ * "Play all" plays the previews back to back in the displayed order.
+ */
+export function TrackList({ title, tracks }: TrackListProps) {
+  const { playingId, loadingId, isPlayingAll, toggle, playAll, stop } = usePreviewPlayer();
+  const [sort, setSort] = useState<Sort>({ key: "position", direction: "asc" });
+
+  // Props stream in: skip entries that haven't fully arrived yet
+  const sortedTracks = useMemo(
+    () => sortTracks((tracks ?? []).filter((track) => track?.id && track.title), sort),
+    [tracks, sort],
+  );
+
+  if (!tracks) {
+    return (
+      <div className="w-full p-3">
+        <div className="h-48 rounded-xl border border-gray-700 bg-gray-800/60 animate-pulse" />
+      </div>
+    );
+  }
+
+  const sortBy = (key: SortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: "asc" },
+    );
+
+  const totalDuration = sortedTracks.reduce((total, track) => total + track.duration, 0);
+
+  return (
+    <div className="w-full max-w-full mx-auto p-3">
+      <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-gray-800/60 backdrop-blur-xl">
+        <div className="p-4 pb-2 flex items-center gap-2">
+          <ListMusic className="w-5 h-5 text-sky-400" />
+          <div className="flex-1 min-w-0">
+            <h2 className="text-white text-lg font-bold leading-tight truncate">
+              {title ?? "Tracks"}
+            </h2>
+            <div className="text-xs text-gray-400">
+              {sortedTracks.length} tracks · {formatDuration(totalDuration)}
+            </div>
+          </div>
+          <button
+            onClick={() => (isPlayingAll ? stop() : playAll(sortedTracks))}
+            disabled={sortedTracks.length === 0}
+            className="inline-flex items-center gap-2 rounded-full border border-gray-600 bg-gray-700/50 px-4 h-9 text-sm font-semibold text-white hover:bg-gray-700/70 transition disabled:opacity-50 shrink-0"
+          >
+            {isPlayingAll ? (
+              <>
+                <Square className="w-4 h-4" />
+                Stop
+              </>
+            ) : (
+              <>
+                <Play className="w-4 h-4" />
+                Play all
+              </>
+            )}
+          </button>
+        </div>
+
+        {/* sortable column headers */}
+        <div className="mx-4 flex items-center gap-3 border-b border-gray-700 px-2 pb-1 text-[11px] uppercase tracking-wide text-gray-400">
+          {COLUMNS.map((column, index) => (
+            <button
+              key={column.key}
+              onClick={() => sortBy(column.key)}
+              className={cn(
+                "flex items-center gap-0.5 hover:text-white transition-colors",
+                column.className,
+                sort.key === column.key && "text-white",
+                // room for the preview button and cover under the title column
+                index === 1 && "pl-[5.25rem]",
+              )}
+              aria-label={`Sort by ${column.label === "#" ? "position" : column.label.toLowerCase()}`}
+            >
+              {column.label}
+              {sort.key === column.key ? (
+                sort.direction === "asc" ? (
+                  <ArrowUp className="w-3 h-3" />
+                ) : (
+                  <ArrowDown className="w-3 h-3" />
+                )
+              ) : (
+                <ChevronsUpDown className="w-3 h-3 opacity-40" />
+              )}
+            </button>
+          ))}
+          <span className="w-7" />
+        </div>
+
+        <ol className="px-4 py-2 space-y-1">
+          {sortedTracks.map((track) => {
+            const isPlaying = playingId === track.id;
+            const isLoading = loadingId === track.id;
+
+            return (
+              <li
+                key={track.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-md px-2 py-1.5 transition-colors",
+                  isPlaying || isLoading ? "bg-gray-700/60" : "hover:bg-gray-700/40",
+                )}
+              >
+                <span className="w-6 text-right text-xs text-gray-400 font-mono">
+                  {tracks.indexOf(track) + 1}
+                </span>
+                <div className="flex-1 min-w-0 flex items-center gap-3">
+                  <PreviewButton
+                    title={track.title}
+                    isPlaying={isPlaying}
+                    isLoading={isLoading}
+                    onClick={() => toggle(track)}
+                    disabled={!track.preview}
+                  />
+                  <img
+                    src={coverUrl(track.albumCover, { size: 64, title: track.album })}
+                    alt=""
+                    className="w-8 h-8 rounded object-cover ring-1 ring-gray-600 shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <div className="text-sm text-white truncate">{track.title}</div>
+                    <div className="text-xs text-gray-400 truncate sm:hidden">{track.artist}</div>
+                  </div>
+                </div>
+                <span className="w-32 hidden sm:block text-sm text-gray-300 truncate">
+                  {track.artist}
+                </span>
+                <span className="w-36 hidden md:block text-sm text-gray-400 truncate">
+                  {track.album}
+                </span>
+                <span className="w-12 text-right text-xs text-gray-400 font-mono">
+                  {formatDuration(track.duration)}
+                </span>
+                <button
+                  onClick={() => window.open(track.link, "_blank")}
+                  className="h-7 w-7 rounded-full flex items-center justify-center border border-gray-600 bg-gray-700/50 hover:bg-gray-700/70 shrink-0"
+                  aria-label={`Open ${track.title}`}
+                  title="Open on Deezer"
+                >
+                  <ExternalLink className="w-3.5 h-3.5 text-white" />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import type { PlaybackOrigin } from "@/lib/player-engine";
+import { useTamboCurrentMessage } from "@tambo-ai/react";
+import { usePathname } from "next/navigation";
+
+/**
+ * The message the calling component is rendered in, passed along when it
+ * starts playback so the mini-player can link back to it
+ */
+export function usePlaybackOrigin(): PlaybackOrigin {
+  const message = useTamboCurrentMessage();
+  const path = usePathname();
+
+  return { threadId: message.threadId, messageId: message.id, path };
+}
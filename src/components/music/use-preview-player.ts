@@ -0,0 +1,51 @@
+"use client";
+
+import type { PlayerTrack } from "@/lib/player-engine";
+import { usePlayerEngine, usePlayerState } from "./PlayerProvider";
+import { usePlaybackOrigin } from "./use-playback-origin";
+
+export type PreviewTrack = PlayerTrack;
+
+/**
+ * Preview controls for a list of tracks, on top of the app's player: one
+ * track plays at a time across the whole app, either on demand or back to
+ * back with `playAll`, ahead of whatever is already queued.
+ */
+export function usePreviewPlayer() {
+  const engine = usePlayerEngine();
+  const origin = usePlaybackOrigin();
+  // Tells this list's "play all" apart from other lists', also after the
+  // list remounts, e.g. when the user switches threads and back
+  const source = origin.messageId;
+  const playingId = usePlayerState((state) =>
+    state.status === "playing" ? (state.track?.id ?? null) : null,
+  );
+  const loadingId = usePlayerState((state) =>
+    state.status === "loading" ? (state.track?.id ?? null) : null,
+  );
+  const isPlayingAll = usePlayerState(
+    (state) => state.source === source && state.status !== "idle",
+  );
+
+  const toggle = (track: PreviewTrack) => void engine.toggle(track, { origin });
+
+  const playAll = (tracks: PreviewTrack[]) => {
+    const [first, ...rest] = tracks.filter((track) => track.preview);
+    if (!first) {
+      stop();
+      return;
+    }
+    void engine.play(first, { upNext: rest, source, origin });
+  };
+
+  // Only stops what this list started: other cards' playback and tracks
+  // queued from elsewhere are left alone
+  const stop = () => {
+    const state = engine.getState();
+    if (state.source === source || state.origin?.messageId === origin.messageId) {
+      engine.stopSource(source);
+    }
+  };
+
+  return { playingId, loadingId, isPlayingAll, toggle, playAll, stop };
+}
@@ -6,6 +6,13 @@ import {
   TooltipProvider,
 } from "@/components/tambo/suggestions-tooltip";
 import { cn } from "@/lib/utils";
+import { abortMusicRequests } from "@/services/music-data";
+import {
+  clearLastMusicError,
+  getLastMusicError,
+  musicErrorHint,
+  subscribeToMusicErrors,
+} from "@/services/music-errors";
 import {
   useIsTamboTokenUpdating,
   useTamboThread,
@@ -150,6 +157,7 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
         if (!value.trim() || isSubmitting) return;
 
         setSubmitError(null);
+        clearLastMusicError();
         setDisplayValue("");
         setIsSubmitting(true);
 
@@ -173,6 +181,7 @@ const MessageInput = React.forwardRef<HTMLFormElement, MessageInputProps>(
 
           // Cancel the thread to reset loading state
           cancel();
+          abortMusicRequests();
         } finally {
           setIsSubmitting(false);
         }
@@ -339,6 +348,8 @@ const MessageInputSubmitButton = React.forwardRef<
     e.preventDefault();
     e.stopPropagation();
     cancel();
+    // Tools don't get the generation's signal: stop their fetches too
+    abortMusicRequests();
   };
 
   const buttonClasses = cn(
@@ -457,7 +468,8 @@ export type MessageInputErrorProps = React.HTMLAttributes<HTMLParagraphElement>;
 
 /**
  * Error message component for displaying submission errors.
- * Automatically connects to the context to display any errors.
+ * Automatically connects to the context to display any errors, and shows a
+ * hint on what to do when a music request of the current turn failed.
  * @component MessageInput.Error
  * @example
  * ```tsx
@@ -473,8 +485,16 @@ const MessageInputError = React.forwardRef<
   MessageInputErrorProps
 >(({ className, ...props }, ref) => {
   const { error, submitError } = useMessageInputContext();
+  const musicError = React.useSyncExternalStore(
+    subscribeToMusicErrors,
+    getLastMusicError,
+    () => null,
+  );
+
+  const message = error?.message ?? submitError;
+  const hint = musicErrorHint(message ?? musicError);
 
-  if (!error && !submitError) {
+  if (!message && !hint) {
     return null;
   }
 
@@ -485,7 +505,15 @@ const MessageInputError = React.forwardRef<
       data-slot="message-input-error"
       {...props}
     >
-      {error?.message ?? submitError}
+      {message}
+      {hint && (
+        <span
+          className={cn("block", message && "text-muted-foreground")}
+          data-slot="message-input-error-hint"
+        >
+          {hint}
+        </span>
+      )}
     </p>
   );
 });
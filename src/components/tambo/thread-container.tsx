@@ -37,7 +37,8 @@ export const ThreadContainer = React.forwardRef<
       className={cn(
         // Base layout and styling
         "flex flex-col bg-white overflow-hidden bg-background",
-        "h-screen",
+        // Leave room for the mini-player when it's docked
+        "h-[calc(100vh-var(--mini-player-height,0px))]",
 
         // Add smooth transitions for layout changes
         "transition-all duration-200 ease-in-out",
@@ -0,0 +1,41 @@
+/**
+ * Whether an error comes from an aborted request or operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * Combines signals into one that aborts as soon as any of them does
+ */
+export function anySignal(signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const defined = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+  return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+}
+
+/**
+ * Settles with `promise`, or rejects with an AbortError as soon as `signal`
+ * aborts. The underlying operation keeps running: use this for work that is
+ * shared with other callers (caches, deduplicated requests) and must not be
+ * cancelled for all of them.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
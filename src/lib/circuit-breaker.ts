@@ -0,0 +1,103 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that trip the breaker open */
+  failureThreshold: number;
+  /** How long the breaker stays open before letting a trial call through */
+  resetTimeoutMs: number;
+  /** Decides whether an error counts against the breaker (default: all do) */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super("Circuit breaker is open");
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Fails fast while a dependency is known to be down.
+ *
+ * After `failureThreshold` consecutive failures the breaker opens and every
+ * call is rejected with a CircuitOpenError. Once `resetTimeoutMs` has passed
+ * a single trial call is let through: success closes the breaker again,
+ * failure re-opens it. Calls still running from before the breaker opened
+ * don't count once they settle.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  // Bumped each time the breaker opens, so calls started before are ignored
+  private generation = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.options.resetTimeoutMs
+    ) {
+      this.state = "half-open";
+    }
+    return this.state;
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      const elapsed = Date.now() - this.openedAt;
+      throw new CircuitOpenError(
+        Math.max(0, this.options.resetTimeoutMs - elapsed),
+      );
+    }
+
+    const isTrial = state === "half-open";
+    const generation = this.generation;
+
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    const settle = (failed: boolean) => {
+      if (generation !== this.generation) return;
+      if (isTrial) this.trialInFlight = false;
+
+      if (failed) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+    };
+
+    try {
+      const result = await operation();
+      settle(false);
+      return result;
+    } catch (error) {
+      settle(this.options.isFailure?.(error) ?? true);
+      throw error;
+    }
+  }
+
+  private onSuccess() {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+  }
+
+  private onFailure() {
+    this.consecutiveFailures++;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      this.generation++;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { mkdir, readdir, rename, stat, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface DiskCacheOptions {
+  /** Directory the entries are stored in, created on first write */
+  dir: string;
+  /** Maximum number of files kept before the oldest ones are removed */
+  maxEntries: number;
+  /** Time to live of each entry in milliseconds */
+  ttlMs: number;
+}
+
+export interface DiskCacheEntry {
+  path: string;
+  size: number;
+}
+
+const PARTIAL_SUFFIX = ".part";
+
+/**
+ * A cache of files on disk, one file per key. Entries expire after `ttlMs`,
+ * and the oldest ones are removed once there are more than `maxEntries`.
+ *
+ * Keys are used as file names, so they must be safe for that (e.g. an id or
+ * a hash plus an extension).
+ */
+export class DiskCache {
+  constructor(private readonly options: DiskCacheOptions) {}
+
+  async get(key: string): Promise<DiskCacheEntry | null> {
+    const file = path.join(this.options.dir, key);
+
+    try {
+      const stats = await stat(file);
+
+      if (Date.now() - stats.mtimeMs > this.options.ttlMs) {
+        return null;
+      }
+
+      return { path: file, size: stats.size };
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, data: Buffer): Promise<DiskCacheEntry> {
+    // Written under a temporary name first, so readers never see a partial file
+    const file = path.join(this.options.dir, key);
+    const partialFile = `${file}.${process.pid}.${Date.now()}${PARTIAL_SUFFIX}`;
+    await mkdir(this.options.dir, { recursive: true });
+    await writeFile(partialFile, data);
+    await rename(partialFile, file);
+
+    void this.prune().catch((error) => console.error("Disk cache prune failed:", error));
+
+    return { path: file, size: data.length };
+  }
+
+  /**
+   * Removes the least recently written entries beyond `maxEntries`
+   */
+  private async prune(): Promise<void> {
+    const { dir, maxEntries } = this.options;
+    const names = (await readdir(dir)).filter((name) => !name.endsWith(PARTIAL_SUFFIX));
+
+    if (names.length <= maxEntries) {
+      return;
+    }
+
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(dir, name);
+        return { file, mtimeMs: (await stat(file).catch(() => null))?.mtimeMs ?? 0 };
+      }),
+    );
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      files
+        .slice(0, files.length - maxEntries)
+        .map(({ file }) => unlink(file).catch(() => undefined)),
+    );
+  }
+}
@@ -0,0 +1,78 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export interface LruCacheOptions {
+  /** Maximum number of entries kept before the least recently used is evicted */
+  maxEntries: number;
+  /** Time to live of each entry in milliseconds */
+  ttlMs: number;
+}
+
+export interface LruCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+}
+
+/**
+ * A small in-process LRU cache with per-entry TTL.
+ *
+ * Relies on Map preserving insertion order: reads re-insert the entry so the
+ * first key is always the least recently used one.
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly options: LruCacheOptions) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.options.ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as K;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): LruCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+    };
+  }
+}
@@ -0,0 +1,541 @@
+import { shuffle } from "@/lib/random";
+import { previewUrl } from "@/services/music-data";
+import type { Track } from "@/services/track";
+
+export type PlayerStatus = "idle" | "loading" | "playing" | "paused";
+
+/**
+ * What happens when a track ends: "all" starts the queue over once it runs
+ * out, "one" repeats the current track
+ */
+export type RepeatMode = "off" | "all" | "one";
+
+/**
+ * What the engine needs to play a track; the rest is shown by players
+ */
+export type PlayerTrack = Pick<Track, "id" | "preview"> &
+  Partial<Pick<Track, "title" | "artist" | "album" | "albumCover" | "duration" | "link">>;
+
+/**
+ * The chat message a playback was started from, so players can link back to it
+ */
+export interface PlaybackOrigin {
+  threadId: string;
+  messageId: string;
+  /** Page the message was shown on, e.g. "/chat" */
+  path: string;
+}
+
+export interface PlayerState {
+  track: PlayerTrack | null;
+  status: PlayerStatus;
+  /** Position in the preview, in seconds */
+  currentTime: number;
+  /** Length of the preview in seconds, 30 until its metadata has loaded */
+  duration: number;
+  /** The queue: tracks to play after the current one, in order */
+  upNext: PlayerTrack[];
+  /** Tracks played before the current one, oldest first */
+  history: PlayerTrack[];
+  /** Who started the playback, e.g. the list that ran "play all" */
+  source: string | null;
+  origin: PlaybackOrigin | null;
+  repeat: RepeatMode;
+}
+
+export type PlayerEventType = "trackchange" | "play" | "pause" | "ended" | "error";
+
+export interface PlayerEvent {
+  type: PlayerEventType;
+  track: PlayerTrack | null;
+}
+
+export interface PlayOptions {
+  /**
+   * Tracks to play after this one, ahead of the queue. Together with a
+   * `source` this is a "play all": it replaces the tracks an earlier play
+   * all queued, whichever list ran it, and keeps the ones queued one by one.
+   */
+  upNext?: PlayerTrack[];
+  /** Drops the whole queue instead of keeping it after `upNext` */
+  replaceQueue?: boolean;
+  source?: string | null;
+  origin?: PlaybackOrigin | null;
+}
+
+const PREVIEW_DURATION = 30;
+
+const MAX_HISTORY = 50;
+
+// "Previous" restarts the current track when it has played longer than this
+const RESTART_THRESHOLD_SECONDS = 3;
+
+// How often the position is published while playing, for smooth sliders
+const POSITION_INTERVAL_MS = 100;
+
+const INITIAL_STATE: PlayerState = {
+  track: null,
+  status: "idle",
+  currentTime: 0,
+  duration: PREVIEW_DURATION,
+  upNext: [],
+  history: [],
+  source: null,
+  origin: null,
+  repeat: "off",
+};
+
+/**
+ * The app's one audio player: a single audio element shared by every track
+ * view, so starting a preview stops the previous one and playback outlives
+ * the card that started it.
+ *
+ * Owns the play queue too: tracks queued up next, played ones (for
+ * "previous"), shuffle and repeat modes, and moving on when a preview ends.
+ *
+ * State is an immutable snapshot published to subscribers, in the shape
+ * useSyncExternalStore expects. Previews stream through the preview proxy,
+ * falling back to the catalog's preview URL once if that fails; tracks that
+ * can't be played at all are skipped.
+ */
+export class PlayerEngine {
+  private state: PlayerState = INITIAL_STATE;
+  private audio: HTMLAudioElement | null = null;
+  private positionTimer: ReturnType<typeof setInterval> | null = null;
+  private hasFallenBack = false;
+  private readonly listeners = new Set<() => void>();
+  private readonly eventListeners = new Set<(event: PlayerEvent) => void>();
+  // Tracks queued by a "play all", which the next one replaces
+  private readonly playAllTracks = new WeakSet<PlayerTrack>();
+  // What repeat "all" starts over with: the queue as of the last play (or of
+  // turning repeat on), plus tracks queued since
+  private repeatQueue: PlayerTrack[] = [];
+
+  getState = (): PlayerState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Listens for playback events, e.g. "ended" to move on to the next track
+   */
+  on(listener: (event: PlayerEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  async play(
+    track: PlayerTrack,
+    { upNext = [], replaceQueue = false, source = null, origin = null }: PlayOptions = {},
+  ): Promise<void> {
+    const isPlayAll = source !== null;
+    const kept = replaceQueue
+      ? []
+      : this.state.upNext.filter((queued) => !isPlayAll || !this.playAllTracks.has(queued));
+    const queued = upNext.map((next) => this.copy(next));
+    if (isPlayAll) queued.forEach((next) => this.playAllTracks.add(next));
+
+    const current = this.copy(track);
+    this.repeatQueue = [current, ...queued, ...kept];
+
+    await this.load(current, {
+      upNext: [...queued, ...kept],
+      history: this.historyWithCurrent(),
+      source,
+      origin,
+    });
+  }
+
+  /**
+   * Skips to the next track in the queue, starting the queue over with
+   * repeat "all". Resolves to false when there's nothing to skip to.
+   */
+  async next(): Promise<boolean> {
+    const [next, ...upNext] = this.state.upNext;
+    if (next) {
+      await this.load(next, { ...this.state, upNext, history: this.historyWithCurrent() });
+      return true;
+    }
+
+    const { track, repeat } = this.state;
+    if (repeat !== "all" || !track) return false;
+
+    const loop = this.repeatQueue.length > 0 ? this.repeatQueue : [track];
+    const [first, ...rest] = loop.map((looped) => this.copy(looped));
+    this.repeatQueue = [first, ...rest];
+    await this.load(first, { ...this.state, upNext: rest, history: this.historyWithCurrent() });
+    return true;
+  }
+
+  /**
+   * Goes back to the previous track, or to the start of the current one once
+   * it has played for a few seconds
+   */
+  async previous(): Promise<void> {
+    const { track, currentTime, history, upNext } = this.state;
+    const previous = history[history.length - 1];
+
+    if (!previous || currentTime > RESTART_THRESHOLD_SECONDS) {
+      this.seek(0);
+      return;
+    }
+
+    await this.load(previous, {
+      ...this.state,
+      upNext: track ? [track, ...upNext] : upNext,
+      history: history.slice(0, -1),
+    });
+  }
+
+  /**
+   * Pauses or resumes `track` if it's the current one, plays it otherwise
+   */
+  async toggle(track: PlayerTrack, options: PlayOptions = {}): Promise<void> {
+    const { track: current, status } = this.state;
+    if (current?.id !== track.id) {
+      return this.play(track, options);
+    }
+
+    // Played to the end: play it again, keeping its history and origin
+    if (status === "idle") {
+      return this.load(track, {
+        ...this.state,
+        upNext: options.upNext ?? this.state.upNext,
+        origin: options.origin ?? this.state.origin,
+      });
+    }
+
+    if (status === "paused") {
+      await this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  /**
+   * Adds tracks to the end of the queue. With nothing playing, the first one
+   * starts playing right away.
+   */
+  async enqueue(tracks: PlayerTrack[], options: PlayOptions = {}): Promise<void> {
+    const [first, ...rest] = tracks;
+    if (!first) return;
+
+    if (this.isStopped()) {
+      await this.play(first, {
+        ...options,
+        upNext: [...this.state.upNext, ...rest],
+        replaceQueue: true,
+        origin: options.origin ?? this.state.origin,
+      });
+      return;
+    }
+
+    const queued = tracks.map((track) => this.copy(track));
+    this.repeatQueue = [...this.repeatQueue, ...queued];
+    this.setState({ upNext: [...this.state.upNext, ...queued] });
+  }
+
+  /**
+   * Puts a track at the front of the queue, or plays it right away when
+   * nothing is playing
+   */
+  async playNext(track: PlayerTrack, options: PlayOptions = {}): Promise<void> {
+    if (this.isStopped()) {
+      await this.play(track, { ...options, origin: options.origin ?? this.state.origin });
+      return;
+    }
+
+    const queued = this.copy(track);
+    this.repeatQueue = [...this.repeatQueue, queued];
+    this.setState({ upNext: [queued, ...this.state.upNext] });
+  }
+
+  /**
+   * Removes a queued track. Takes the track as found in the queue rather than
+   * its position, so a remove racing with the queue moving on (a track ended,
+   * a tool queued more) still removes the right one; ignored once it's gone.
+   */
+  removeFromQueue(track: PlayerTrack): void {
+    this.repeatQueue = this.repeatQueue.filter((looped) => looped !== track);
+    this.setState({ upNext: this.state.upNext.filter((queued) => queued !== track) });
+  }
+
+  /**
+   * Moves the queued track at `from` to `to`, both indexes into the queue
+   */
+  moveInQueue(from: number, to: number): void {
+    const upNext = [...this.state.upNext];
+    const [track] = upNext.splice(from, 1);
+    if (!track) return;
+
+    upNext.splice(Math.min(Math.max(0, to), upNext.length), 0, track);
+    this.setState({ upNext });
+  }
+
+  /**
+   * Puts the queue in the given order, e.g. after a drag and drop. Ignored
+   * when `order` isn't the current queue reordered, e.g. because a track
+   * ended meanwhile.
+   */
+  reorderQueue(order: PlayerTrack[]): void {
+    const { upNext } = this.state;
+    if (order.length !== upNext.length || !order.every((track) => upNext.includes(track))) {
+      return;
+    }
+    this.setState({ upNext: order });
+  }
+
+  clearQueue(): void {
+    const { upNext } = this.state;
+    this.repeatQueue = this.repeatQueue.filter((track) => !upNext.includes(track));
+    this.setState({ upNext: [] });
+  }
+
+  shuffleQueue(): void {
+    this.setState({ upNext: shuffle(this.state.upNext) });
+  }
+
+  setRepeat(repeat: RepeatMode): void {
+    const { track, upNext } = this.state;
+    if (repeat === "all" && this.state.repeat !== "all" && track) {
+      this.repeatQueue = [track, ...upNext];
+    }
+    this.setState({ repeat });
+  }
+
+  pause(): void {
+    if (this.state.status === "idle") return;
+    this.stopPositionTimer();
+    this.setState({ status: "paused" });
+    this.audio?.pause();
+    this.emit("pause");
+  }
+
+  async resume(): Promise<void> {
+    if (!this.audio || this.state.status !== "paused") return;
+    await this.startAudio(this.audio);
+  }
+
+  /**
+   * Stops playback and forgets the current track, up next and history
+   */
+  stop(): void {
+    this.unloadAudio();
+    this.repeatQueue = [];
+    this.setState({ ...INITIAL_STATE, repeat: this.state.repeat });
+  }
+
+  /**
+   * Stops playback and unloads the current track, e.g. when the player is
+   * closed. Up next, history and the repeat mode are kept for the next play.
+   */
+  close(): void {
+    const { upNext, repeat } = this.state;
+    const history = this.historyWithCurrent();
+
+    this.unloadAudio();
+    this.setState({ ...INITIAL_STATE, upNext, history, repeat });
+  }
+
+  /**
+   * Stops the current track, which stays loaded, idle. When `source` ran the
+   * "play all" that's playing, the tracks it queued are dropped too; tracks
+   * queued one by one are kept for later.
+   */
+  stopSource(source: string): void {
+    const { upNext, source: playing } = this.state;
+    this.stopPositionTimer();
+    this.setState({
+      status: "idle",
+      currentTime: 0,
+      source: null,
+      upNext:
+        playing === source ? upNext.filter((track) => !this.playAllTracks.has(track)) : upNext,
+    });
+    this.audio?.pause();
+  }
+
+  seek(seconds: number): void {
+    if (!this.audio || this.state.status === "idle") return;
+    const currentTime = Math.min(Math.max(0, seconds), this.state.duration);
+    this.audio.currentTime = currentTime;
+    this.setState({ currentTime });
+  }
+
+  /**
+   * Stops playback and releases the audio element; the engine can still be
+   * used afterwards
+   */
+  destroy(): void {
+    this.stop();
+    this.audio = null;
+  }
+
+  private async load(
+    track: PlayerTrack,
+    { upNext, history, source, origin }: Pick<PlayerState, "upNext" | "history" | "source" | "origin">,
+  ): Promise<void> {
+    const audio = this.ensureAudio();
+    this.hasFallenBack = false;
+    this.setState({
+      track,
+      status: "loading",
+      currentTime: 0,
+      duration: PREVIEW_DURATION,
+      upNext,
+      history,
+      source,
+      origin,
+    });
+    this.emit("trackchange");
+
+    audio.src = previewUrl(track.id);
+    await this.startAudio(audio);
+  }
+
+  // Queued tracks are copies, so the same track queued twice can still be told
+  // apart, e.g. when reordering the queue. Copies of play all tracks are
+  // play all tracks too.
+  private copy(track: PlayerTrack): PlayerTrack {
+    const queued = { ...track };
+    if (this.playAllTracks.has(track)) this.playAllTracks.add(queued);
+    return queued;
+  }
+
+  private unloadAudio(): void {
+    if (this.audio) {
+      this.audio.pause();
+      this.audio.removeAttribute("src");
+    }
+    this.stopPositionTimer();
+  }
+
+  private historyWithCurrent(): PlayerTrack[] {
+    const { track, history } = this.state;
+    return track ? [...history, track].slice(-MAX_HISTORY) : history;
+  }
+
+  private ensureAudio(): HTMLAudioElement {
+    if (this.audio) return this.audio;
+
+    const audio = new Audio();
+    audio.addEventListener("loadedmetadata", () => {
+      this.setState({ duration: audio.duration || PREVIEW_DURATION });
+    });
+    audio.addEventListener("playing", () => {
+      this.setState({ status: "playing" });
+      this.startPositionTimer(audio);
+      this.emit("play");
+    });
+    // Paused from outside the app, e.g. with the keyboard's media keys
+    audio.addEventListener("pause", () => {
+      if (this.state.status === "playing" && !audio.ended) this.pause();
+    });
+    audio.addEventListener("ended", () => {
+      this.stopPositionTimer();
+      this.emit("ended");
+      void this.advance();
+    });
+    audio.addEventListener("error", () => void this.handleError(audio));
+
+    this.audio = audio;
+    return audio;
+  }
+
+  private async startAudio(audio: HTMLAudioElement): Promise<void> {
+    try {
+      await audio.play();
+    } catch (error) {
+      // Load failures are handled by the "error" listener, and interrupted
+      // plays by whatever interrupted them. Blocked autoplay leaves it paused.
+      if ((error as Error).name === "NotAllowedError" && this.audio === audio) {
+        this.setState({ status: "paused" });
+      }
+    }
+  }
+
+  private async handleError(audio: HTMLAudioElement): Promise<void> {
+    const { track } = this.state;
+    if (this.audio !== audio || !track || !audio.error) return;
+
+    // The proxy failed: try the catalog's preview URL once
+    if (!this.hasFallenBack && track.preview) {
+      this.hasFallenBack = true;
+      audio.src = track.preview;
+      await this.startAudio(audio);
+      return;
+    }
+
+    this.stopPositionTimer();
+    this.emit("error");
+    // Skip unplayable tracks, without repeating them
+    if (this.state.upNext.length > 0) {
+      await this.next();
+    } else {
+      this.finish();
+    }
+  }
+
+  // Nothing loaded, or the last track played to the end
+  private isStopped(): boolean {
+    return this.state.track === null || this.state.status === "idle";
+  }
+
+  // Moves on once a track ended
+  private async advance(): Promise<void> {
+    const { track, repeat } = this.state;
+    if (repeat === "one" && track) {
+      await this.load(track, this.state);
+    } else if (!(await this.next())) {
+      this.finish();
+    }
+  }
+
+  // At the end of the queue the last track stays loaded, idle, so players
+  // can still show it and play it again
+  private finish(): void {
+    this.stopPositionTimer();
+    this.setState({ status: "idle", currentTime: 0, source: null });
+  }
+
+  private startPositionTimer(audio: HTMLAudioElement): void {
+    this.stopPositionTimer();
+    this.positionTimer = setInterval(() => {
+      this.setState({ currentTime: audio.currentTime });
+    }, POSITION_INTERVAL_MS);
+  }
+
+  private stopPositionTimer(): void {
+    if (this.positionTimer) {
+      clearInterval(this.positionTimer);
+      this.positionTimer = null;
+    }
+  }
+
+  private setState(patch: Partial<PlayerState>): void {
+    this.state = { ...this.state, ...patch };
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private emit(type: PlayerEventType): void {
+    const event = { type, track: this.state.track };
+    for (const listener of this.eventListeners) {
+      listener(event);
+    }
+  }
+}
+
+let playerEngine: PlayerEngine | null = null;
+
+/**
+ * The app's player. One per page load, shared by the PlayerProvider and the
+ * queue tools, which run outside React.
+ */
+export function getPlayerEngine(): PlayerEngine {
+  playerEngine ??= new PlayerEngine();
+  return playerEngine;
+}
@@ -0,0 +1,26 @@
+/**
+ * Maps over `items` with at most `concurrency` calls to `fn` in flight at a
+ * time. Results keep the order of `items`; the first rejection rejects the
+ * whole map, so `fn` should settle errors itself when partial results matter.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function worker() {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker),
+  );
+
+  return results;
+}
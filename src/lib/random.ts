@@ -0,0 +1,59 @@
+/**
+ * Returns a random number in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a seed string into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32): the same seed always
+ * yields the same sequence. Not suitable for anything security related.
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a short seed, for callers that want to report the seed of an
+ * otherwise unseeded draw so it can be replayed
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff).toString(36);
+}
+
+/**
+ * Picks a random element, or undefined for an empty array
+ */
+export function pickRandom<T>(items: readonly T[], random: RandomSource = Math.random): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Returns a shuffled copy of `items` (Fisher-Yates)
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
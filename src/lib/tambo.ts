@@ -11,15 +11,255 @@
 import { Graph, graphSchema } from "@/components/tambo/graph";
 import { DataCard, dataCardSchema } from "@/components/ui/card-data";
 import { MusicCard, musicCardSchema } from "@/components/music/MusicCard";
+import { ArtistCard, artistCardSchema } from "@/components/music/ArtistCard";
+import { AlbumCard, albumCardSchema } from "@/components/music/AlbumCard";
+import { TopChart, topChartSchema } from "@/components/music/TopChart";
+import { TrackChoice, trackChoiceSchema } from "@/components/music/TrackChoice";
+import { TrackList, trackListSchema } from "@/components/music/TrackList";
+import { PlaylistCard, playlistCardSchema } from "@/components/music/PlaylistCard";
+import {
+  SearchResultList,
+  searchResultListSchema,
+} from "@/components/music/SearchResultList";
 import {
   getCountryPopulations,
   getGlobalPopulationTrend,
 } from "@/services/population-stats";
-import { searchMusic, getRandomSong } from "@/services/music-data";
+import {
+  searchMusic,
+  searchMusicBatch,
+  getRandomSong,
+  getArtist,
+  findArtist,
+  getAlbum,
+  findAlbum,
+  getCharts,
+  getTrack,
+} from "@/services/music-data";
+import { getPlayerEngine, type PlayerTrack } from "@/lib/player-engine";
+import { MusicApiError, toToolError } from "@/services/music-errors";
+import { MAX_BATCH_SEARCHES, MAX_SEARCH_LIMIT } from "@/services/music-search-params";
+import type { SearchFields } from "@/services/music-provider/types";
+import { MOOD_NAMES } from "@/services/music-provider/moods";
+import { getRandomHistory, recordRandomPick } from "@/services/random-history";
+import { generatePlaylistTracks } from "@/services/playlist-generator";
+import {
+  insertTracks,
+  playlistCovers,
+  playlistSchema,
+  type Playlist,
+  type PlaylistChanges,
+} from "@/services/playlist";
+import { getPlaylistRepository } from "@/services/playlist-repository";
+import { toTrack, trackSchema, type Track } from "@/services/track";
+import {
+  ambiguousMatches,
+  distinctTracks,
+  rankTracks,
+  type RankedTrack,
+} from "@/services/track-ranking";
 import type { TamboComponent } from "@tambo-ai/react";
 import { TamboTool } from "@tambo-ai/react";
 import { z } from "zod";
 
+const musicSearchArgsSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe("Free-text music search query (song title, artist name, or genre)"),
+  artist: z.string().optional().describe("Only match this artist"),
+  track: z.string().optional().describe("Only match this song title"),
+  album: z.string().optional().describe("Only match this album title"),
+  label: z.string().optional().describe("Only match this record label"),
+  minDuration: z.number().optional().describe("Minimum duration in seconds"),
+  maxDuration: z.number().optional().describe("Maximum duration in seconds"),
+  minBpm: z.number().optional().describe("Minimum tempo in BPM"),
+  maxBpm: z
+    .number()
+    .optional()
+    .describe("Maximum tempo in BPM (slow songs are roughly under 90)"),
+});
+
+type MusicSearchArgs = z.infer<typeof musicSearchArgsSchema>;
+
+// Search results re-ranked per search, and runner-ups offered as alternatives
+const RANKING_POOL_SIZE = 25;
+const MAX_CANDIDATES = 4;
+const MAX_CHOICES = 5;
+
+const DEFAULT_TRACK_LIST_SIZE = 10;
+const MAX_TRACK_LIST_SIZE = 50;
+
+const DEFAULT_MAX_TRACKS_PER_ARTIST = 2;
+const MAX_GENERATED_DURATION = 4 * 60 * 60;
+
+const generatePlaylistArgsSchema = musicSearchArgsSchema.omit({ query: true }).extend({
+  theme: z
+    .string()
+    .describe("What the playlist is about, searched for: a mood, genre or activity, e.g. \"focus\" or \"80s rock\""),
+  name: z.string().optional().describe("Playlist name (default: the theme)"),
+  targetDuration: z
+    .number()
+    .int()
+    .min(60)
+    .max(MAX_GENERATED_DURATION)
+    .optional()
+    .describe("Total duration to aim for, in seconds, e.g. 2700 for \"45 minutes\""),
+  trackCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TRACK_LIST_SIZE)
+    .optional()
+    .describe("Number of tracks; with targetDuration, the most tracks to use"),
+  maxPerArtist: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      `Most tracks by one artist (default ${DEFAULT_MAX_TRACKS_PER_ARTIST}, no limit when the artist field is set)`,
+    ),
+  uniqueIsrc: z
+    .boolean()
+    .optional()
+    .describe("Leave out tracks sharing an ISRC, i.e. the same recording on another release (default true)"),
+});
+
+type GeneratePlaylistArgs = z.infer<typeof generatePlaylistArgsSchema>;
+
+const rankedTrackSchema = trackSchema.extend({
+  versions: z
+    .array(z.string())
+    .optional()
+    .describe("Kind of alternate version, e.g. \"karaoke\", \"remix\" or \"live\""),
+});
+
+const musicSearchResultSchema = z.discriminatedUnion("ambiguous", [
+  z.object({
+    ambiguous: z.literal(false),
+    match: rankedTrackSchema.describe("Best match; render it with MusicCard"),
+    candidates: z
+      .array(rankedTrackSchema)
+      .describe("Runner-up matches, best first, to offer as \"did you mean\""),
+  }),
+  z.object({
+    ambiguous: z.literal(true),
+    choices: z
+      .array(trackSchema)
+      .describe(
+        "Equally good matches by different artists; render them with TrackChoice and wait for the user's pick",
+      ),
+  }),
+]);
+
+function toRankedResult({ track, versions }: RankedTrack): z.infer<typeof rankedTrackSchema> {
+  return { ...toTrack(track), versions: versions.length > 0 ? versions : undefined };
+}
+
+// Maps the tool's search fields to the catalog's structured search fields
+function toSearchFields(fields: Omit<MusicSearchArgs, "query">): SearchFields {
+  return {
+    artist: fields.artist,
+    track: fields.track,
+    album: fields.album,
+    label: fields.label,
+    durMin: fields.minDuration,
+    durMax: fields.maxDuration,
+    bpmMin: fields.minBpm,
+    bpmMax: fields.maxBpm,
+  };
+}
+
+// Human-readable summary of a search, for "no results" messages
+function describeSearch({ query, ...fields }: MusicSearchArgs): string {
+  return [
+    query,
+    ...Object.entries(fields)
+      .filter(([, value]) => value !== undefined && value !== "")
+      .map(([field, value]) => `${field}: ${value}`),
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+const MAX_ENQUEUED_TRACKS = 50;
+
+const queuedTrackSchema = z.object({
+  id: z.number().describe("Track ID"),
+  title: z.string().optional().describe("Song title"),
+  artist: z.string().optional().describe("Artist name"),
+});
+
+const playQueueSchema = z.object({
+  nowPlaying: queuedTrackSchema
+    .nullable()
+    .describe("The current track; null when nothing is loaded"),
+  status: z
+    .enum(["idle", "loading", "playing", "paused"])
+    .describe("Playback status; idle once the queue has played to the end"),
+  upNext: z.array(queuedTrackSchema).describe("Queued tracks, in play order"),
+  repeat: z
+    .enum(["off", "all", "one"])
+    .describe("Repeat mode: \"all\" starts the queue over at the end, \"one\" repeats the current track"),
+});
+
+// The player's queue as the queue tools report it
+function describeQueue(): z.infer<typeof playQueueSchema> {
+  const { track, status, upNext, repeat } = getPlayerEngine().getState();
+  const describe = ({ id, title, artist }: PlayerTrack) => ({ id, title, artist });
+
+  return {
+    nowPlaying: track ? describe(track) : null,
+    status,
+    upNext: upNext.map(describe),
+    repeat,
+  };
+}
+
+const MAX_PLAYLIST_ADDITIONS = 50;
+
+const playlistReferenceSchema = z
+  .string()
+  .describe("Playlist ID, or its name as the user calls it");
+
+const playlistSummarySchema = z.object({
+  id: z.string().describe("Playlist ID"),
+  name: z.string().describe("Playlist name"),
+  description: z.string().optional().describe("Playlist description"),
+  trackCount: z.number().describe("Number of tracks"),
+  duration: z.number().describe("Total duration in seconds"),
+  updatedAt: z.string().describe("When the playlist was last changed (ISO 8601)"),
+});
+
+// Users name playlists rather than quote their IDs: try the ID, then the name
+async function findPlaylist(reference: string): Promise<Playlist> {
+  const repository = getPlaylistRepository();
+  const name = reference.trim().toLowerCase();
+  const playlist =
+    (await repository.get(reference)) ??
+    (await repository.list()).find((candidate) => candidate.name.toLowerCase() === name);
+
+  if (!playlist) {
+    throw new Error(`No playlist found for "${reference}"; listPlaylists shows the saved ones`);
+  }
+  return playlist;
+}
+
+// Applies a change to a playlist found by ID or name
+async function updatePlaylist(
+  reference: string,
+  change: (playlist: Playlist) => PlaylistChanges,
+): Promise<Playlist> {
+  const { id } = await findPlaylist(reference);
+  const playlist = await getPlaylistRepository().update(id, change);
+
+  if (!playlist) {
+    throw new Error(`Playlist "${reference}" was deleted`);
+  }
+  return playlist;
+}
+
 /**
  * tools
  *
@@ -68,84 +308,592 @@ export const tools: TamboTool[] = [
   {
     name: "searchMusic",
     description:
-      "Searches for music by song title, artist name, or any music-related query. Use this when users ask for specific songs, artists, or types of music. Returns a music card with preview and Deezer link.",
-    tool: async (args: { query: string }) => {
+      "Searches for music by song title, artist name, or any music-related query. Use this when users ask for specific songs, artists, or types of music. Prefer the structured fields over stuffing everything into the query: e.g. \"slow songs by Adele under 4 minutes\" is { artist: \"Adele\", maxBpm: 90, maxDuration: 240 }. Returns the best match, to render with MusicCard, plus runner-up candidates to offer as \"did you mean\" (e.g. the live version). When several artists' songs match equally well (e.g. \"Hello\" by Adele and by Lionel Richie) it returns { ambiguous: true, choices } instead: don't pick one, render the choices with TrackChoice and wait for the user's pick.",
+    tool: async (args: MusicSearchArgs) => {
       try {
-        const { query } = args;
-        
-        if (!query || typeof query !== 'string') {
-          throw new Error('Invalid search query provided');
+        const { query, ...fields } = args;
+        const hasFields = Object.values(fields).some(
+          (value) => value !== undefined && value !== "",
+        );
+
+        if ((!query || typeof query !== 'string') && !hasFields) {
+          throw new MusicApiError('INVALID_QUERY', 'Invalid search query provided');
         }
-        
-        const tracks = await searchMusic(query);
+
+        // Fetch a wider pool: the catalog's top hit is often a cover or remix
+        const tracks = await searchMusic(query ?? "", {
+          fields: toSearchFields(args),
+          limit: RANKING_POOL_SIZE,
+        });
         
         if (!tracks || tracks.length === 0) {
-          throw new Error(`No music found for "${query}"`);
+          throw new MusicApiError('NOT_FOUND', `No music found for "${describeSearch(args)}"`);
         }
         
-        // Return the first (best) result
-        const track = tracks[0];
-        
+        const ranked = rankTracks(tracks, args);
+        const choices = ambiguousMatches(ranked, args, MAX_CHOICES);
+        if (choices.length > 0) {
+          return { ambiguous: true as const, choices: choices.map(({ track }) => toTrack(track)) };
+        }
+
+        const [match, ...runnersUp] = ranked.map(toRankedResult);
+
         return {
-          id: track.id,
-          title: track.title,
-          artist: track.artist.name,
-          album: track.album.title,
-          duration: track.duration,
-          preview: track.preview,
-          link: track.link,
-          artistImage: track.artist.picture_medium,
-          albumCover: track.album.cover_medium,
-          rank: track.rank,
+          ambiguous: false as const,
+          match,
+          candidates: runnersUp.slice(0, MAX_CANDIDATES),
         };
       } catch (error) {
         console.error('Error in searchMusic tool:', error);
-        throw new Error(error instanceof Error ? error.message : "Failed to search for music");
+        throw toToolError(error, "Failed to search for music");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(musicSearchArgsSchema)
+      .returns(musicSearchResultSchema),
+  },
+  {
+    name: "searchTrackList",
+    description:
+      "Finds several tracks matching one search. Use this instead of searchMusic when users ask for more than one result, e.g. \"show me 10 songs by Radiohead\" is { artist: \"Radiohead\", count: 10 }. Returns an array of tracks, best match first and without repeat versions of the same song; render it with the TrackList component.",
+    tool: async (args: MusicSearchArgs & { count?: number }) => {
+      try {
+        const { query, count = DEFAULT_TRACK_LIST_SIZE, ...fields } = args;
+        const hasFields = Object.values(fields).some(
+          (value) => value !== undefined && value !== "",
+        );
+
+        if ((!query || typeof query !== 'string') && !hasFields) {
+          throw new MusicApiError('INVALID_QUERY', 'Invalid search query provided');
+        }
+
+        // Fetch extra results to make up for dropped covers and duplicates
+        const tracks = await searchMusic(query ?? "", {
+          fields: toSearchFields(fields),
+          limit: Math.min(Math.max(count * 2, RANKING_POOL_SIZE), MAX_SEARCH_LIMIT),
+        });
+
+        if (!tracks || tracks.length === 0) {
+          throw new MusicApiError('NOT_FOUND', `No music found for "${describeSearch(args)}"`);
+        }
+
+        return distinctTracks(rankTracks(tracks, args))
+          .slice(0, count)
+          .map(({ track }) => toTrack(track));
+      } catch (error) {
+        console.error('Error in searchTrackList tool:', error);
+        throw toToolError(error, "Failed to search for music");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(
+        musicSearchArgsSchema.extend({
+          count: z
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_TRACK_LIST_SIZE)
+            .optional()
+            .describe(`How many tracks to return (default ${DEFAULT_TRACK_LIST_SIZE})`),
+        })
+      )
+      .returns(z.array(trackSchema)),
+  },
+  {
+    name: "generatePlaylist",
+    description:
+      "Builds a playlist for a theme that lasts about a given time or has a given number of tracks, e.g. \"45 minutes of focus music\" is { theme: \"focus\", targetDuration: 2700 }. Limits tracks per artist and skips repeat versions and duplicate recordings. Use it instead of searchTrackList when users ask for an amount of music to listen to. Returns an unsaved playlist whose durations add up to within a minute of the target when the catalog has enough matches; render it with PlaylistCard, and pass its tracks to createPlaylist if the user wants to keep it.",
+    tool: async (args: GeneratePlaylistArgs) => {
+      try {
+        const { theme, name, targetDuration, trackCount, maxPerArtist, uniqueIsrc = true, ...fields } = args;
+
+        if (!theme || typeof theme !== 'string') {
+          throw new MusicApiError('INVALID_QUERY', 'Invalid playlist theme provided');
+        }
+
+        // Fetch as many candidates as possible: the solver needs room to hit the target
+        const tracks = await searchMusic(theme, {
+          fields: toSearchFields(fields),
+          limit: MAX_SEARCH_LIMIT,
+        });
+
+        if (!tracks || tracks.length === 0) {
+          throw new MusicApiError('NOT_FOUND', `No music found for "${describeSearch({ query: theme, ...fields })}"`);
+        }
+
+        const candidates = distinctTracks(rankTracks(tracks, { query: theme, ...fields })).map(
+          ({ track }) => track,
+        );
+        const picks = await generatePlaylistTracks(
+          candidates,
+          targetDuration === undefined
+            ? { count: trackCount ?? DEFAULT_TRACK_LIST_SIZE }
+            : { duration: targetDuration, count: trackCount },
+          {
+            maxPerArtist: maxPerArtist ?? (fields.artist ? Infinity : DEFAULT_MAX_TRACKS_PER_ARTIST),
+            isrc: uniqueIsrc ? async ({ id }) => (await getTrack(id))?.isrc || null : undefined,
+          },
+        );
+        const playlistTracks = picks.map(toTrack);
+
+        return {
+          name: name ?? theme,
+          description: `Generated for "${theme}"`,
+          covers: playlistCovers(playlistTracks),
+          tracks: playlistTracks,
+        };
+      } catch (error) {
+        console.error('Error in generatePlaylist tool:', error);
+        throw toToolError(error, "Failed to generate a playlist");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(generatePlaylistArgsSchema)
+      .returns(playlistCardSchema),
+  },
+  {
+    name: "searchMusicBatch",
+    description:
+      "Searches for several songs at once. Use this instead of repeated searchMusic calls when users ask for more than one specific song, e.g. \"play Yesterday, Imagine and Hey Jude\" is three searches with a track and artist each. Returns the best match per search, plus the reason for any song that wasn't found; render the result with the SearchResultList component.",
+    tool: async (args: { searches: MusicSearchArgs[]; title?: string }) => {
+      try {
+        const batch = await searchMusicBatch(
+          args.searches.map((search) => ({
+            query: search.query,
+            fields: toSearchFields(search),
+            limit: RANKING_POOL_SIZE,
+          })),
+        );
+
+        const results = batch.map((result, index) => {
+          const query = describeSearch(args.searches[index]);
+          if ("error" in result) {
+            return { query, error: `${result.error.code}: ${result.error.error}` };
+          }
+          const [best] = rankTracks(result.data, args.searches[index]);
+          return best
+            ? { query, track: toTrack(best.track) }
+            : { query, error: `NOT_FOUND: No music found for "${query}"` };
+        });
+
+        // Only fail the call when nothing was found at all
+        if (results.every((result) => !result.track)) {
+          const [failure] = batch.flatMap((result) => ("error" in result ? [result.error] : []));
+          throw failure
+            ? new MusicApiError(failure.code, failure.error)
+            : new MusicApiError('NOT_FOUND', 'None of the songs were found');
+        }
+
+        return { title: args.title, results };
+      } catch (error) {
+        console.error('Error in searchMusicBatch tool:', error);
+        throw toToolError(error, "Failed to search for music");
       }
     },
     toolSchema: z
       .function()
       .args(
         z.object({
-          query: z.string().describe("Music search query (song title, artist name, or genre)"),
+          searches: z
+            .array(musicSearchArgsSchema)
+            .min(1)
+            .max(MAX_BATCH_SEARCHES)
+            .describe("One search per requested song, in the order asked for"),
+          title: z.string().optional().describe("Title for the list, e.g. \"Your road trip songs\""),
         })
       )
-      .returns(musicCardSchema),
+      .returns(searchResultListSchema),
   },
   {
     name: "getRandomMusic",
     description:
-      "Gets a random song to surprise the user. Use this when users ask to be surprised, want something random, or ask for music to cheer them up without specifying what they want.",
-    tool: async () => {
+      `Gets a random song to surprise the user. Use this when users ask to be surprised, want something random, or ask for music to cheer them up without specifying what they want. Pass the mood they ask for (one of: ${MOOD_NAMES.join(", ")}), e.g. "surprise me with something calm" is { mood: "calm" }.`,
+    tool: async (args: { mood?: string; genre?: string }) => {
       try {
-        const track = await getRandomSong();
+        // Skip what this session already got, so repeated requests stay fresh
+        const history = getRandomHistory();
+        const track = await getRandomSong({
+          mood: args.mood,
+          genre: args.genre,
+          exclude: history.trackIds,
+          excludeArtists: history.artistIds,
+        });
         
         if (!track) {
-          throw new Error('No random music found');
+          throw new MusicApiError('NOT_FOUND', 'No random music found');
         }
+
+        recordRandomPick(track);
         
-        return {
-          id: track.id,
-          title: track.title,
-          artist: track.artist.name,
-          album: track.album.title,
-          duration: track.duration,
-          preview: track.preview,
-          link: track.link,
-          artistImage: track.artist.picture_medium,
-          albumCover: track.album.cover_medium,
-          rank: track.rank,
-        };
+        return toTrack(track);
       } catch (error) {
         console.error('Error in getRandomMusic tool:', error);
-        throw new Error(error instanceof Error ? error.message : "Failed to get random music");
+        throw toToolError(error, "Failed to get random music");
       }
     },
     toolSchema: z
       .function()
-      .args(z.object({}))
+      .args(
+        z.object({
+          mood: z
+            .string()
+            .optional()
+            .describe(`Mood of the song, one of: ${MOOD_NAMES.join(", ")}`),
+          genre: z.string().optional().describe("Genre name, e.g. \"jazz\" or \"rock\""),
+        })
+      )
       .returns(musicCardSchema),
   },
+  {
+    name: "getArtist",
+    description:
+      "Gets an artist profile with fan count, playable top tracks, albums and related artists. Use this when users ask about an artist (e.g. \"tell me about Daft Punk\"). Returns an artist card.",
+    tool: async (args: { name?: string; id?: number }) => {
+      try {
+        const { name, id } = args;
+
+        if (!id && (!name || typeof name !== 'string')) {
+          throw new MusicApiError('INVALID_QUERY', 'Invalid artist provided');
+        }
+
+        const artist = id ? await getArtist(id) : await findArtist(name!);
+
+        if (!artist) {
+          throw new MusicApiError('NOT_FOUND', `No artist found for "${name ?? id}"`);
+        }
+
+        return {
+          id: artist.id,
+          name: artist.name,
+          picture: artist.picture_big || artist.picture_medium,
+          link: artist.link,
+          fans: artist.nb_fan,
+          albumCount: artist.nb_album,
+          topTracks: artist.topTracks.map((track) => ({
+            id: track.id,
+            title: track.title,
+            album: track.album.title,
+            duration: track.duration,
+            preview: track.preview,
+            albumCover: track.album.cover_medium,
+          })),
+          albums: artist.albums.map((album) => ({
+            id: album.id,
+            title: album.title,
+            cover: album.cover_medium,
+            releaseDate: album.release_date,
+          })),
+          relatedArtists: artist.related.map((related) => ({
+            id: related.id,
+            name: related.name,
+            picture: related.picture_medium,
+          })),
+        };
+      } catch (error) {
+        console.error('Error in getArtist tool:', error);
+        throw toToolError(error, "Failed to get artist");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          name: z.string().optional().describe("Artist name"),
+          id: z.number().optional().describe("Artist ID, when already known"),
+        })
+      )
+      .returns(artistCardSchema),
+  },
+  {
+    name: "getAlbum",
+    description:
+      "Gets an album with its full tracklist, release date, label, genres and total duration. Use this when users ask about an album or want to hear the whole record a song is from. Returns an album card whose tracks can all be previewed.",
+    tool: async (args: { id?: number; title?: string; artist?: string }) => {
+      try {
+        const { id, title, artist } = args;
+
+        if (!id && (!title || typeof title !== 'string')) {
+          throw new MusicApiError('INVALID_QUERY', 'Invalid album provided');
+        }
+
+        const album = id ? await getAlbum(id) : await findAlbum(title!, artist);
+
+        if (!album) {
+          throw new MusicApiError('NOT_FOUND', `No album found for "${title ?? id}"`);
+        }
+
+        return {
+          id: album.id,
+          title: album.title,
+          artist: album.artist.name,
+          cover: album.cover_big || album.cover_medium,
+          link: album.link,
+          releaseDate: album.release_date,
+          label: album.label,
+          genres: album.genres.map((genre) => genre.name),
+          duration: album.duration,
+          tracks: album.tracks.map((track) => ({
+            id: track.id,
+            title: track.title,
+            artist: track.artist.name,
+            duration: track.duration,
+            preview: track.preview,
+          })),
+        };
+      } catch (error) {
+        console.error('Error in getAlbum tool:', error);
+        throw toToolError(error, "Failed to get album");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          id: z.number().optional().describe("Album ID, when already known (e.g. from a music card)"),
+          title: z.string().optional().describe("Album title"),
+          artist: z.string().optional().describe("Artist name, to disambiguate the title"),
+        })
+      )
+      .returns(albumCardSchema),
+  },
+  {
+    name: "getCharts",
+    description:
+      "Gets what's popular right now: the top tracks, albums or artists, overall or for one genre (e.g. \"rock\", \"hip hop\", \"jazz\"). Use this instead of searchMusic when users ask for charts, hits, trending or popular music. Returns a ranked chart with rank-movement badges; track charts can be previewed and include a popularity bar chart.",
+    tool: async (args: { genre?: string; type?: "tracks" | "albums" | "artists" }) => {
+      try {
+        const { genre, type = "tracks" } = args;
+        const charts = await getCharts(genre);
+        const scope = charts.genre.id ? ` · ${charts.genre.name}` : "";
+        const movement = (entry: { movement: number | "new" | null }) => ({
+          movement: entry.movement === "new" ? undefined : entry.movement,
+          isNew: entry.movement === "new",
+        });
+
+        const entries =
+          type === "albums"
+            ? charts.albums.map((album) => ({
+                id: album.id,
+                position: album.position,
+                ...movement(album),
+                title: album.title,
+                subtitle: album.artist.name,
+                image: album.cover_medium,
+                link: album.link,
+              }))
+            : type === "artists"
+              ? charts.artists.map((artist) => ({
+                  id: artist.id,
+                  position: artist.position,
+                  ...movement(artist),
+                  title: artist.name,
+                  image: artist.picture_medium,
+                  link: artist.link,
+                }))
+              : charts.tracks.map((track) => ({
+                  id: track.id,
+                  position: track.position,
+                  ...movement(track),
+                  title: track.title,
+                  subtitle: track.artist.name,
+                  image: track.album.cover_medium,
+                  link: track.link,
+                  preview: track.preview,
+                  rank: track.rank,
+                }));
+
+        if (entries.length === 0) {
+          throw new MusicApiError('NOT_FOUND', `No ${type} charts found${genre ? ` for "${genre}"` : ""}`);
+        }
+
+        return {
+          title: `Top ${type}${scope}`,
+          type,
+          entries,
+        };
+      } catch (error) {
+        console.error('Error in getCharts tool:', error);
+        throw toToolError(error, "Failed to get charts");
+      }
+    },
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          genre: z
+            .string()
+            .optional()
+            .describe("Genre name or ID, e.g. \"pop\", \"rock\", \"rap\"; omit for all genres"),
+          type: z
+            .enum(["tracks", "albums", "artists"])
+            .optional()
+            .describe("What to rank (default: tracks)"),
+        })
+      )
+      .returns(topChartSchema),
+  },
+  {
+    name: "enqueueTrack",
+    description:
+      "Adds tracks to the end of the play queue; if nothing is playing, the first one starts right away. For \"queue three more like this\", find similar tracks first (e.g. searchTrackList by the same artist, or getRandomMusic with the same mood or genre, excluding what's queued) and pass them all in one call. Returns the updated queue.",
+    tool: async ({ tracks }: { tracks: Track[] }) => {
+      await getPlayerEngine().enqueue(tracks);
+      return describeQueue();
+    },
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          tracks: z
+            .array(trackSchema)
+            .min(1)
+            .max(MAX_ENQUEUED_TRACKS)
+            .describe("Tracks to queue, in play order, as returned by the search tools"),
+        })
+      )
+      .returns(playQueueSchema),
+  },
+  {
+    name: "playNext",
+    description:
+      "Puts a track at the front of the play queue, to play after the current one; if nothing is playing, it starts right away. Returns the updated queue.",
+    tool: async ({ track }: { track: Track }) => {
+      await getPlayerEngine().playNext(track);
+      return describeQueue();
+    },
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          track: trackSchema.describe("Track to play next, as returned by the search tools"),
+        })
+      )
+      .returns(playQueueSchema),
+  },
+  {
+    name: "skipTrack",
+    description:
+      "Skips the current track and plays the next one in the queue. Fails when the queue is empty. Returns the updated queue.",
+    tool: async () => {
+      if (!(await getPlayerEngine().next())) {
+        throw new Error("Nothing to skip to: the queue is empty");
+      }
+      return describeQueue();
+    },
+    toolSchema: z.function().args(z.object({})).returns(playQueueSchema),
+  },
+  {
+    name: "getQueue",
+    description:
+      "Gets the current track, the tracks queued up next and the repeat mode. Use it before answering questions about what's playing or queued.",
+    tool: async () => describeQueue(),
+    toolSchema: z.function().args(z.object({})).returns(playQueueSchema),
+  },
+  {
+    name: "clearQueue",
+    description:
+      "Removes every track queued up next. The current track keeps playing. Returns the updated queue.",
+    tool: async () => {
+      getPlayerEngine().clearQueue();
+      return describeQueue();
+    },
+    toolSchema: z.function().args(z.object({})).returns(playQueueSchema),
+  },
+  {
+    name: "createPlaylist",
+    description:
+      "Saves a new playlist in the user's browser, optionally with tracks found by the search tools. Use it when users ask to make or save a playlist. Returns the playlist; render it with PlaylistCard.",
+    tool: async ({ name, description, tracks = [] }: { name: string; description?: string; tracks?: Track[] }) =>
+      getPlaylistRepository().create({ name, description, tracks }),
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          name: z.string().min(1).describe("Playlist name"),
+          description: z.string().optional().describe("What the playlist is for"),
+          tracks: z
+            .array(trackSchema)
+            .max(MAX_PLAYLIST_ADDITIONS)
+            .optional()
+            .describe("Tracks in play order, as returned by the search tools"),
+        })
+      )
+      .returns(playlistSchema),
+  },
+  {
+    name: "addToPlaylist",
+    description:
+      "Adds tracks to a saved playlist, at the end or at a position. Tracks already in the playlist are skipped. Returns the updated playlist; render it with PlaylistCard.",
+    tool: async ({ playlist, tracks, position }: { playlist: string; tracks: Track[]; position?: number }) =>
+      updatePlaylist(playlist, (current) => ({
+        tracks: insertTracks(current.tracks, tracks, position === undefined ? undefined : position - 1),
+      })),
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          playlist: playlistReferenceSchema,
+          tracks: z
+            .array(trackSchema)
+            .min(1)
+            .max(MAX_PLAYLIST_ADDITIONS)
+            .describe("Tracks to add, in play order, as returned by the search tools"),
+          position: z
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe("Position of the first added track, 1 being the top; omit to add at the end"),
+        })
+      )
+      .returns(playlistSchema),
+  },
+  {
+    name: "removeFromPlaylist",
+    description:
+      "Removes tracks from a saved playlist by track ID. Use getPlaylist first when the user names the songs. Returns the updated playlist; render it with PlaylistCard.",
+    tool: async ({ playlist, trackIds }: { playlist: string; trackIds: number[] }) =>
+      updatePlaylist(playlist, (current) => ({
+        tracks: current.tracks.filter(({ id }) => !trackIds.includes(id)),
+      })),
+    toolSchema: z
+      .function()
+      .args(
+        z.object({
+          playlist: playlistReferenceSchema,
+          trackIds: z.array(z.number()).min(1).describe("IDs of the tracks to remove"),
+        })
+      )
+      .returns(playlistSchema),
+  },
+  {
+    name: "listPlaylists",
+    description:
+      "Lists the user's saved playlists, most recently changed first, without their tracks. Use getPlaylist to show one.",
+    tool: async () =>
+      (await getPlaylistRepository().list()).map((playlist) => ({
+        id: playlist.id,
+        name: playlist.name,
+        description: playlist.description,
+        trackCount: playlist.tracks.length,
+        duration: playlist.tracks.reduce((total, track) => total + track.duration, 0),
+        updatedAt: playlist.updatedAt,
+      })),
+    toolSchema: z.function().args(z.object({})).returns(z.array(playlistSummarySchema)),
+  },
+  {
+    name: "getPlaylist",
+    description:
+      "Gets a saved playlist with all its tracks. Returns the playlist; render it with PlaylistCard.",
+    tool: async ({ playlist }: { playlist: string }) => findPlaylist(playlist),
+    toolSchema: z
+      .function()
+      .args(z.object({ playlist: playlistReferenceSchema }))
+      .returns(playlistSchema),
+  },
   // Add more tools here
 ];
 
@@ -178,5 +926,54 @@ export const components: TamboComponent[] = [
     component: MusicCard,
     propsSchema: musicCardSchema,
   },
+  {
+    name: "ArtistCard",
+    description:
+      "An artist profile card with picture, fan count, playable top tracks, albums and related artists. Use it to render the result of the getArtist tool.",
+    component: ArtistCard,
+    propsSchema: artistCardSchema,
+  },
+  {
+    name: "AlbumCard",
+    description:
+      "An album card with cover, release details, genres and the full tracklist. Every track has a preview button and a \"play all previews\" action plays the record back to back. Use it to render the result of the getAlbum tool.",
+    component: AlbumCard,
+    propsSchema: albumCardSchema,
+  },
+  {
+    name: "TopChart",
+    description:
+      "A ranked chart of tracks, albums or artists with rank-movement badges (up, down, new). Track entries have preview buttons and a popularity bar chart. Use it to render the result of the getCharts tool.",
+    component: TopChart,
+    propsSchema: topChartSchema,
+  },
+  {
+    name: "TrackChoice",
+    description:
+      "Asks the user which of several tracks they meant, e.g. when searchMusic returns { ambiguous: true, choices }. Pass the choices as they are; the user's pick is sent back as a message naming the track and artist, so continue with that one (search again with both as structured fields and render it with MusicCard) instead of guessing.",
+    component: TrackChoice,
+    propsSchema: trackChoiceSchema,
+  },
+  {
+    name: "TrackList",
+    description:
+      "A compact, sortable list of tracks with a preview button per row and a \"play all\" action. Use it for answers with several tracks, e.g. to render the result of the searchTrackList tool, instead of one MusicCard per track.",
+    component: TrackList,
+    propsSchema: trackListSchema,
+  },
+  {
+    name: "PlaylistCard",
+    description:
+      "A playlist with a cover mosaic, description and tracklist, with preview buttons, \"play all\" and \"add to queue\". Use it to render the result of the playlist tools.",
+    component: PlaylistCard,
+    propsSchema: playlistCardSchema,
+  },
+  {
+    name: "SearchResultList",
+    description:
+      "A list of songs found for a multi-song request, one row per requested song with a preview button, and the reason for songs that weren't found. Use it to render the result of the searchMusicBatch tool.",
+    component: SearchResultList,
+    propsSchema: searchResultListSchema,
+  },
   // Add more components here
 ];
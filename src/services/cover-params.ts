@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/** Sizes /api/music/cover renders, in pixels; other sizes snap up to these */
+export const COVER_SIZES = [64, 128, 250, 500, 1000] as const;
+export const DEFAULT_COVER_SIZE = 250;
+
+/** Edge length of the blurred low-quality placeholder */
+export const COVER_PLACEHOLDER_SIZE = 16;
+
+export type CoverSize = (typeof COVER_SIZES)[number];
+
+/**
+ * A request for cover art from /api/music/cover
+ */
+export interface CoverRequest {
+  /** Artwork URL from the catalog; without one, a fallback cover is generated */
+  url?: string;
+  /** Square output size, or "placeholder" for a tiny blurred preview */
+  size: CoverSize | "placeholder";
+  /** Title the fallback cover is generated from */
+  title?: string;
+}
+
+const MAX_COVER_SIZE = COVER_SIZES[COVER_SIZES.length - 1];
+
+/**
+ * Snaps a size up to the closest rendered one, so every caller shares the
+ * same few cached renditions
+ */
+export function snapCoverSize(size: number): CoverSize {
+  return COVER_SIZES.find((coverSize) => coverSize >= size) ?? MAX_COVER_SIZE;
+}
+
+const coverParamsSchema = z.object({
+  // Checked by the route, which serves the fallback cover for URLs it won't fetch
+  url: z.string().trim().optional(),
+  size: z
+    .union(
+      [
+        z.literal("placeholder"),
+        z.coerce.number().int().min(1).max(MAX_COVER_SIZE).transform(snapCoverSize),
+      ],
+      {
+        errorMap: () => ({
+          message: `size must be "placeholder" or a number of pixels up to ${MAX_COVER_SIZE}`,
+        }),
+      },
+    )
+    .default(DEFAULT_COVER_SIZE),
+  title: z.string().trim().max(200).optional(),
+});
+
+type ParseResult =
+  | { success: true; request: CoverRequest }
+  | { success: false; error: string };
+
+/**
+ * Parses and validates the query string of a /api/music/cover request
+ */
+export function parseCoverParams(searchParams: URLSearchParams): ParseResult {
+  const parsed = coverParamsSchema.safeParse({
+    url: searchParams.get("url") || undefined,
+    size: searchParams.get("size") || undefined,
+    title: searchParams.get("title") || undefined,
+  });
+
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  return { success: true, request: parsed.data };
+}
+
+/**
+ * Serializes a cover request into /api/music/cover query parameters
+ */
+export function toCoverParams(request: CoverRequest): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (request.url) params.set("url", request.url);
+  params.set("size", String(request.size));
+  if (request.title) params.set("title", request.title);
+
+  return params;
+}
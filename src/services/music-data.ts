@@ -1,69 +1,70 @@
-export interface TrackInfo {
-  id: number;
-  title: string;
-  title_short: string;
-  artist: {
-    id: number;
-    name: string;
-    picture_medium: string;
-  };
-  album: {
-    id: number;
-    title: string;
-    cover_medium: string;
-  };
-  duration: number;
-  preview: string;
-  link: string;
-  rank: number;
-}
+import {
+  DEFAULT_COVER_SIZE,
+  snapCoverSize,
+  toCoverParams,
+} from "@/services/cover-params";
+import { createHttpTransport } from "@/services/music-http-transport";
+import { createMusicService } from "@/services/music-service";
+
+export type { TrackContributor, TrackDetails, TrackInfo } from "@/services/track";
+export type { MusicRequestOptions, RandomSongOptions } from "@/services/music-service";
+
+// Aborted and replaced whenever the user cancels a generation, so every
+// request started for it stops with it
+let requestsController = new AbortController();
 
 /**
- * Searches for music tracks
+ * Aborts all in-flight music requests, e.g. when the user cancels a
+ * generation. Requests made afterwards are unaffected.
  */
-export async function searchMusic(query: string): Promise<TrackInfo[]> {
-  try {
-    const response = await fetch(`/api/music/search?q=${encodeURIComponent(query)}`);
+export function abortMusicRequests(): void {
+  requestsController.abort();
+  requestsController = new AbortController();
+}
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
+// The music service for the browser, going through the /api/music routes.
+// Server code wraps createProviderTransport() from music-provider/transport.
+const musicService = createMusicService(
+  createHttpTransport({ signal: () => requestsController.signal }),
+);
 
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error);
-    }
-    
-    return data.data || [];
-  } catch (error) {
-    console.error('Error searching music:', error);
-    throw error;
-  }
+export const {
+  searchMusicPage,
+  searchMusic,
+  searchMusicBatch,
+  getRandomSong,
+  getTrack,
+  getArtist,
+  findArtist,
+  getAlbum,
+  findAlbum,
+  getCharts,
+} = musicService;
+
+/**
+ * URL of a track's preview served through /api/music/preview/[id], which
+ * supports seeking, is cached on the server and never expires. Players
+ * should prefer it over the catalog's preview URL.
+ */
+export function previewUrl(id: number): string {
+  return `/api/music/preview/${id}`;
 }
 
 /**
- * Gets a random song to surprise users
+ * URL of cover art served through /api/music/cover, resized to `size` pixels
+ * (or a tiny blurred placeholder) and cached on the server. Without a cover,
+ * it points at a fallback cover generated from `title`.
  */
-export async function getRandomSong(): Promise<TrackInfo | null> {
-  try {
-    const response = await fetch('/api/music/random');
-    
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    if (data.error) {
-      throw new Error(data.error);
-    }
-    
-    return data.data?.[0] || null;
-  } catch (error) {
-    console.error('Error getting random song:', error);
-    throw error;
-  }
+export function coverUrl(
+  url: string | undefined,
+  { size = DEFAULT_COVER_SIZE, title }: { size?: number | 'placeholder'; title?: string } = {}
+): string {
+  const params = toCoverParams({
+    url,
+    size: size === 'placeholder' ? size : snapCoverSize(size),
+    title,
+  });
+  return `/api/music/cover?${params}`;
 }
 
 /**
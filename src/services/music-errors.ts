@@ -0,0 +1,184 @@
+import { isAbortError } from "@/lib/abort";
+
+/**
+ * Error codes of the /api/music routes, returned as `code` in error bodies
+ */
+export const MUSIC_ERROR_CODES = [
+  "INVALID_QUERY",
+  "NOT_FOUND",
+  "RATE_LIMITED",
+  "UPSTREAM_UNAVAILABLE",
+  "TIMEOUT",
+  "INTERNAL",
+] as const;
+
+export type MusicErrorCode = (typeof MUSIC_ERROR_CODES)[number];
+
+/**
+ * JSON body of a failed /api/music request
+ */
+export interface MusicErrorBody {
+  error: string;
+  code: MusicErrorCode;
+  /** Seconds to wait before retrying, for RATE_LIMITED and UPSTREAM_UNAVAILABLE */
+  retryAfter?: number;
+}
+
+export const MUSIC_ERROR_STATUS: Record<MusicErrorCode, number> = {
+  INVALID_QUERY: 400,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 503,
+  TIMEOUT: 504,
+  INTERNAL: 500,
+};
+
+// Shown to the user next to the message input
+const USER_HINTS: Record<MusicErrorCode, string> = {
+  INVALID_QUERY: "Try rephrasing, e.g. with an artist or song title.",
+  NOT_FOUND: "Nothing matched. Check the spelling or try something broader.",
+  RATE_LIMITED: "The music catalog is busy. Try again in a few seconds.",
+  UPSTREAM_UNAVAILABLE: "The music catalog is temporarily unavailable. Try again shortly.",
+  TIMEOUT: "The music catalog took too long to answer. Try again.",
+  INTERNAL: "Something went wrong. Try again.",
+};
+
+// Passed to the assistant with failed tool calls, so it can explain the
+// failure and offer alternatives instead of retrying blindly
+const ASSISTANT_HINTS: Record<MusicErrorCode, string> = {
+  INVALID_QUERY: "Retry with different search fields or ask the user to rephrase.",
+  NOT_FOUND:
+    "Tell the user nothing matched and suggest alternatives: a broader search, similar artists or the charts.",
+  RATE_LIMITED: "Tell the user the catalog is rate limiting requests; do not retry right away.",
+  UPSTREAM_UNAVAILABLE: "Tell the user the catalog is down for now; do not retry right away.",
+  TIMEOUT: "Retry once; if it times out again, tell the user the catalog is slow.",
+  INTERNAL: "Tell the user the request failed.",
+};
+
+/**
+ * A failed music request, carrying its error code
+ */
+export class MusicApiError extends Error {
+  constructor(
+    readonly code: MusicErrorCode,
+    message: string,
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message);
+    this.name = "MusicApiError";
+  }
+}
+
+// Checked by name: route bundles can each carry their own copy of the class
+export function isMusicApiError(error: unknown): error is MusicApiError {
+  return error instanceof Error && error.name === "MusicApiError";
+}
+
+const isMusicErrorCode = (value: unknown): value is MusicErrorCode =>
+  MUSIC_ERROR_CODES.includes(value as MusicErrorCode);
+
+/**
+ * Error code for an HTTP status, for responses without a `code`
+ */
+export function musicErrorCodeForStatus(status: number): MusicErrorCode {
+  const code = MUSIC_ERROR_CODES.find((candidate) => MUSIC_ERROR_STATUS[candidate] === status);
+  return code ?? (status === 502 ? "UPSTREAM_UNAVAILABLE" : "INTERNAL");
+}
+
+/**
+ * Builds the error for a failed /api/music response from its JSON body
+ */
+export async function musicApiErrorFromResponse(response: Response): Promise<MusicApiError> {
+  let body: Partial<MusicErrorBody> = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not JSON, e.g. a proxy's error page: the status still gives the code
+  }
+
+  return new MusicApiError(
+    isMusicErrorCode(body.code) ? body.code : musicErrorCodeForStatus(response.status),
+    typeof body.error === "string" ? body.error : `API error: ${response.status}`,
+    body.retryAfter,
+  );
+}
+
+/**
+ * The code of a music error. Also recognizes tool errors, whose message
+ * starts with the code (see toToolError).
+ */
+export function musicErrorCode(error: unknown): MusicErrorCode | undefined {
+  if (isMusicApiError(error)) {
+    return error.code;
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  const prefix = message.match(/^([A-Z_]+):/)?.[1];
+  return isMusicErrorCode(prefix) ? prefix : undefined;
+}
+
+/**
+ * A hint for the user on what to do about a music error
+ */
+export function musicErrorHint(error: unknown): string | undefined {
+  const code = musicErrorCode(error);
+  return code && USER_HINTS[code];
+}
+
+/**
+ * Turns an error from a music tool into the error the tool throws. The
+ * message leads with the error code and ends with a hint for the assistant,
+ * e.g. "NOT_FOUND: No music found for "xyz". Tell the user nothing matched...".
+ * Aborts are passed through as is: the user cancelled, there's nothing to hint.
+ */
+export function toToolError(error: unknown, fallbackMessage: string): Error {
+  if (isAbortError(error)) {
+    return error as Error;
+  }
+
+  const code = musicErrorCode(error) ?? "INTERNAL";
+  const message = (
+    error instanceof Error ? error.message.replace(/^[A-Z_]+: /, "") : fallbackMessage
+  ).replace(/[.!?\s]+$/, "");
+  const retryAfter =
+    isMusicApiError(error) && error.retryAfterSeconds
+      ? ` Retry after ${error.retryAfterSeconds}s at the earliest.`
+      : "";
+
+  const toolError = new MusicApiError(
+    code,
+    `${code}: ${message}. ${ASSISTANT_HINTS[code]}${retryAfter}`,
+  );
+  reportMusicError(toolError);
+  return toolError;
+}
+
+// Last music error of the current turn, for the message input to show a hint
+let lastMusicError: MusicApiError | null = null;
+const listeners = new Set<() => void>();
+
+function reportMusicError(error: MusicApiError | null) {
+  lastMusicError = error;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Forgets the last music error, e.g. when the user sends a new message
+ */
+export function clearLastMusicError(): void {
+  if (lastMusicError) {
+    reportMusicError(null);
+  }
+}
+
+export function getLastMusicError(): MusicApiError | null {
+  return lastMusicError;
+}
+
+/**
+ * Subscribes to music errors, in the shape useSyncExternalStore expects
+ */
+export function subscribeToMusicErrors(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
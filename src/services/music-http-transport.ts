@@ -0,0 +1,134 @@
+import { anySignal } from "@/lib/abort";
+import type { RankedCharts } from "@/services/music-provider/charts";
+import type { AlbumDetails, ArtistDetails } from "@/services/music-provider/types";
+import { musicApiErrorFromResponse } from "@/services/music-errors";
+import {
+  toMusicSearchParams,
+  type MusicSearchBatch,
+  type MusicSearchBatchResult,
+  type MusicSearchPage,
+} from "@/services/music-search-params";
+import type { MusicRequestOptions, MusicTransport } from "@/services/music-service";
+import {
+  isMalformedTrackError,
+  parseTrack,
+  parseTrackDetails,
+  parseTrackList,
+} from "@/services/track";
+
+export interface HttpTransportOptions {
+  /** Origin of the app, e.g. "http://localhost:3000". Empty in the browser. */
+  baseUrl?: string;
+  /**
+   * Signal applied to every request on top of the per-request one, read at
+   * request time so it can be swapped after aborting
+   */
+  signal?: () => AbortSignal | undefined;
+}
+
+// Validates the tracks of one batch result; a malformed result becomes a
+// failed one rather than failing the whole batch
+function validateBatchResult(result: MusicSearchBatchResult): MusicSearchBatchResult {
+  if ("error" in result) {
+    return result;
+  }
+
+  try {
+    return { ...result, data: parseTrackList(result.data, "/api/music/search/batch") };
+  } catch (error) {
+    if (!isMalformedTrackError(error)) {
+      throw error;
+    }
+    return {
+      request: result.request,
+      error: { error: (error as Error).message, code: "UPSTREAM_UNAVAILABLE" },
+    };
+  }
+}
+
+/**
+ * A transport calling the /api/music routes. Relative by default, for the
+ * browser; scripts and jobs pass the app's `baseUrl`.
+ */
+export function createHttpTransport({
+  baseUrl = "",
+  signal: sharedSignal,
+}: HttpTransportOptions = {}): MusicTransport {
+  // Resolves to null on 404 when `notFound` is "null", for lookups by id
+  async function request(
+    path: string,
+    { signal }: MusicRequestOptions = {},
+    notFound: "null" | "throw" = "throw",
+    init: RequestInit = {},
+  ): Promise<unknown> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      signal: anySignal([signal, sharedSignal?.()]),
+    });
+
+    if (response.status === 404 && notFound === "null") {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw await musicApiErrorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  return {
+    async searchPage(searchRequest, options) {
+      const path = `/api/music/search?${toMusicSearchParams(searchRequest)}`;
+      const page = (await request(path, options)) as MusicSearchPage;
+      return { ...page, data: parseTrackList(page.data, "/api/music/search") };
+    },
+
+    async searchBatch(requests, options) {
+      const { results } = (await request("/api/music/search/batch", options, "throw", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ searches: requests }),
+      })) as MusicSearchBatch;
+
+      return results.map(validateBatchResult);
+    },
+
+    async random(randomOptions, requestOptions) {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(randomOptions)) {
+        const paramValue = Array.isArray(value) ? value.join(",") : value;
+        if (paramValue) params.set(key, paramValue);
+      }
+
+      const data = (await request(`/api/music/random?${params}`, requestOptions)) as {
+        data?: unknown[];
+      };
+      const [track] = data.data ?? [];
+      return track ? parseTrack(track, "/api/music/random") : null;
+    },
+
+    async getTrack(id, options) {
+      const path = `/api/music/track/${id}`;
+      const track = await request(path, options, "null");
+      return track === null ? null : parseTrackDetails(track, path);
+    },
+
+    async getArtist(id, options) {
+      return (await request(`/api/music/artist/${id}`, options, "null")) as ArtistDetails | null;
+    },
+
+    async getAlbum(id, options) {
+      return (await request(`/api/music/album/${id}`, options, "null")) as AlbumDetails | null;
+    },
+
+    async getCharts(genre, options) {
+      const params = new URLSearchParams();
+      if (genre !== undefined && genre !== "") {
+        params.set("genre", String(genre));
+      }
+
+      return (await request(`/api/music/charts?${params}`, options)) as RankedCharts;
+    },
+  };
+}
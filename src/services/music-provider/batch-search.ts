@@ -0,0 +1,42 @@
+import { mapWithConcurrency } from "@/lib/pool";
+import {
+  parseMusicSearchParams,
+  toMusicSearchParams,
+  type MusicSearchBatchResult,
+  type MusicSearchPage,
+  type MusicSearchRequest,
+} from "@/services/music-search-params";
+import { toMusicApiError } from "./errors";
+import { cachedSearch } from "./search-cache";
+
+// Searches of one batch in flight at once, to stay clear of upstream rate limits
+const BATCH_CONCURRENCY = 4;
+
+async function searchOne(request: MusicSearchRequest): Promise<MusicSearchBatchResult> {
+  const parsed = parseMusicSearchParams(toMusicSearchParams(request));
+
+  if (!parsed.success) {
+    return { request, error: { error: parsed.error, code: "INVALID_QUERY" } };
+  }
+
+  try {
+    const { response } = await cachedSearch(parsed.request);
+    const { data, total } = JSON.parse(response.body) as MusicSearchPage;
+    return { request, data, total };
+  } catch (error) {
+    const { code, message, retryAfterSeconds } = toMusicApiError(
+      error,
+      "Failed to search for music",
+    );
+    return { request, error: { error: message, code, retryAfter: retryAfterSeconds } };
+  }
+}
+
+/**
+ * Runs many searches concurrently through the search cache. Each search
+ * settles on its own: failures are reported in its result instead of failing
+ * the batch.
+ */
+export function searchBatch(requests: MusicSearchRequest[]): Promise<MusicSearchBatchResult[]> {
+  return mapWithConcurrency(requests, BATCH_CONCURRENCY, searchOne);
+}
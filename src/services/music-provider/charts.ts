@@ -0,0 +1,108 @@
+import type { TrackInfo } from "@/services/track";
+import { LruCache } from "@/lib/lru-cache";
+import { getMusicProvider } from "./index";
+import type { ArtistInfo, ChartAlbum, Charts, Genre } from "./types";
+
+/**
+ * Places gained (positive) or lost (negative) since the previous chart,
+ * "new" for a new entry, or null when there is no previous chart to compare
+ * against yet.
+ */
+export type ChartMovement = number | "new" | null;
+
+export type RankedChartItem<T> = T & {
+  position: number;
+  movement: ChartMovement;
+};
+
+export interface RankedCharts {
+  genre: Genre;
+  tracks: RankedChartItem<TrackInfo>[];
+  albums: RankedChartItem<ChartAlbum>[];
+  artists: RankedChartItem<ArtistInfo>[];
+}
+
+interface ChartSnapshot {
+  ids: number[];
+  /** Positions in the chart this one replaced, by id */
+  previousPositions: Map<number, number> | null;
+}
+
+const CHARTS_TTL_MS = 10 * 60 * 1000;
+
+// Shared between route bundles, like the search cache
+const globalForCharts = globalThis as unknown as {
+  musicChartsCache?: LruCache<number, Charts>;
+  musicChartSnapshots?: Map<string, ChartSnapshot>;
+};
+
+const chartsCache = (globalForCharts.musicChartsCache ??= new LruCache<number, Charts>({
+  maxEntries: 50,
+  ttlMs: CHARTS_TTL_MS,
+}));
+
+const snapshots = (globalForCharts.musicChartSnapshots ??= new Map<string, ChartSnapshot>());
+
+const sameOrder = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * Ranks chart items and works out their movement. Upstream charts carry no
+ * history, so each chart is compared with the last differing one this
+ * process has seen.
+ */
+function rankItems<T extends { id: number }>(
+  key: string,
+  items: T[],
+): RankedChartItem<T>[] {
+  const ids = items.map((item) => item.id);
+  let snapshot = snapshots.get(key);
+
+  if (!snapshot) {
+    snapshot = { ids, previousPositions: null };
+    snapshots.set(key, snapshot);
+  } else if (!sameOrder(snapshot.ids, ids)) {
+    snapshot = {
+      ids,
+      previousPositions: new Map(snapshot.ids.map((id, index) => [id, index + 1])),
+    };
+    snapshots.set(key, snapshot);
+  }
+
+  const { previousPositions } = snapshot;
+
+  return items.map((item, index) => {
+    const position = index + 1;
+    const previousPosition = previousPositions?.get(item.id);
+
+    return {
+      ...item,
+      position,
+      movement: !previousPositions
+        ? null
+        : previousPosition === undefined
+          ? "new"
+          : previousPosition - position,
+    };
+  });
+}
+
+/**
+ * Gets the charts of a genre from the configured provider, with positions
+ * and rank movement
+ */
+export async function getRankedCharts(genre: Genre): Promise<RankedCharts> {
+  let charts = chartsCache.get(genre.id);
+
+  if (!charts) {
+    charts = await getMusicProvider().getCharts(genre.id || undefined);
+    chartsCache.set(genre.id, charts);
+  }
+
+  return {
+    genre,
+    tracks: rankItems(`${genre.id}:tracks`, charts.tracks),
+    albums: rankItems(`${genre.id}:albums`, charts.albums),
+    artists: rankItems(`${genre.id}:artists`, charts.artists),
+  };
+}
@@ -0,0 +1,154 @@
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { DiskCache, type DiskCacheEntry } from "@/lib/disk-cache";
+import { createSeededRandom } from "@/lib/random";
+import { COVER_PLACEHOLDER_SIZE, type CoverRequest } from "@/services/cover-params";
+import { fetchWithTimeout, isRedirectStatus, readBodyWithLimit } from "./http";
+
+// Catalog image hosts covers may be fetched from. Anything else is refused,
+// so the cover route can't be used as an open proxy.
+const COVER_HOSTS = new Set([
+  "api.deezer.com",
+  "cdn-images.dzcdn.net",
+  "cdns-images.dzcdn.net",
+  "e-cdns-images.dzcdn.net",
+]);
+
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+// Concurrent requests for the same rendition share one render
+const globalForCovers = globalThis as unknown as {
+  coverRenders?: Map<string, Promise<DiskCacheEntry>>;
+};
+
+const renders = (globalForCovers.coverRenders ??= new Map<string, Promise<DiskCacheEntry>>());
+
+const cache = new DiskCache({
+  dir: process.env.COVER_CACHE_DIR || path.join(tmpdir(), "music-covers"),
+  maxEntries: 2000,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+});
+
+/**
+ * Whether a cover URL points at one of the catalog's image hosts
+ */
+export function isAllowedCoverUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && COVER_HOSTS.has(hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Catalog image URLs may redirect. Redirects are followed by hand, so every
+// hop is checked against the allowed hosts before it's requested.
+async function fetchCoverSource(url: string): Promise<Buffer> {
+  let current = url;
+
+  for (let hops = 0; hops <= MAX_REDIRECTS; hops++) {
+    if (!isAllowedCoverUrl(current)) {
+      throw new Error(`Cover URL on a disallowed host: ${current}`);
+    }
+
+    const result = await fetchWithTimeout(
+      current,
+      FETCH_TIMEOUT_MS,
+      async (response) => {
+        if (!isRedirectStatus(response.status)) {
+          return readBodyWithLimit(response, MAX_SOURCE_BYTES);
+        }
+
+        await response.body?.cancel();
+        const location = response.headers.get("location");
+        if (!location) {
+          throw new Error(`Cover redirect without a location: ${current}`);
+        }
+        return new URL(location, current).toString();
+      },
+      { redirect: "manual" },
+    );
+
+    if (typeof result !== "string") {
+      return result;
+    }
+    current = result;
+  }
+
+  throw new Error(`Cover redirected more than ${MAX_REDIRECTS} times: ${url}`);
+}
+
+async function renderCover(url: string, size: CoverRequest["size"]): Promise<Buffer> {
+  const source = await fetchCoverSource(url);
+
+  if (size === "placeholder") {
+    return sharp(source)
+      .resize(COVER_PLACEHOLDER_SIZE, COVER_PLACEHOLDER_SIZE, { fit: "cover" })
+      .blur(1)
+      .webp({ quality: 50 })
+      .toBuffer();
+  }
+
+  return sharp(source).resize(size, size, { fit: "cover" }).webp({ quality: 82 }).toBuffer();
+}
+
+/**
+ * Returns a cover resized to `size` (as WebP) from the disk cache, fetching
+ * and rendering it on a miss. Throws when the cover can't be fetched or
+ * isn't an image.
+ */
+export async function getCoverImage(
+  url: string,
+  size: CoverRequest["size"],
+): Promise<DiskCacheEntry> {
+  const key = `${createHash("sha1").update(url).digest("hex")}-${size}.webp`;
+  const cached = await cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let render = renders.get(key);
+  if (!render) {
+    render = renderCover(url, size)
+      .then((image) => cache.set(key, image))
+      .finally(() => renders.delete(key));
+    renders.set(key, render);
+  }
+
+  return render;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Generates a cover for tracks without art: a gradient whose colors are
+ * derived from the title (so a record always gets the same one) with the
+ * title's initials, or a note when there's no title.
+ */
+export function renderFallbackCover(title: string | undefined, size: number): string {
+  const hue = Math.floor(createSeededRandom(title ?? "")() * 360);
+  const initials = (title ?? "")
+    .split(/\s+/)
+    .filter((word) => /^[\p{L}\p{N}]/u.test(word))
+    .slice(0, 2)
+    .map((word) => Array.from(word)[0].toUpperCase())
+    .join("");
+
+  const label = initials
+    ? `<text x="50" y="50" dy=".35em" text-anchor="middle" font-family="system-ui, sans-serif" font-size="34" font-weight="700" fill="white" fill-opacity=".85">${escapeXml(initials)}</text>`
+    : `<path d="M42 28v32.5a9 9 0 1 0 6 8.5V40l18-5v19.5a9 9 0 1 0 6 8.5V22z" fill="white" fill-opacity=".85"/>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 100 100">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue} 55% 42%)"/>
+<stop offset="1" stop-color="hsl(${(hue + 50) % 360} 60% 18%)"/>
+</linearGradient></defs>
+<rect width="100" height="100" fill="url(#g)"/>
+${label}
+</svg>`;
+}
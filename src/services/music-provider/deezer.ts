@@ -0,0 +1,237 @@
+import { CircuitBreaker } from "@/lib/circuit-breaker";
+import {
+  parseTrackDetails,
+  parseTrackList,
+  type TrackDetails,
+  type TrackInfo,
+} from "@/services/track";
+import { isUpstreamFailure, UpstreamHttpError } from "./errors";
+import { callUpstream, fetchWithTimeout, type RetryOptions } from "./http";
+import { pickRandomTrack } from "./pick";
+import {
+  ARTIST_ALBUMS_LIMIT,
+  ARTIST_TOP_TRACKS_LIMIT,
+  CHART_LIMIT,
+  RELATED_ARTISTS_LIMIT,
+  type AlbumDetails,
+  type AlbumTrack,
+  type ArtistAlbum,
+  type ArtistDetails,
+  type ArtistInfo,
+  type ChartAlbum,
+  type Charts,
+  type Genre,
+  type MusicProvider,
+  type ProviderRequestOptions,
+  type RandomOptions,
+  type SearchFields,
+  type SearchOptions,
+  type SearchResult,
+} from "./types";
+
+const DEEZER_API_URL = "https://api.deezer.com";
+
+// Deezer reports errors (including unknown ids) as a 200 with an error body
+interface DeezerErrorBody {
+  error?: {
+    type: string;
+    message: string;
+    code: number;
+  };
+}
+
+const DEEZER_NOT_FOUND_CODE = 800;
+
+interface DeezerList<T> {
+  data: T[];
+  total?: number;
+}
+
+interface DeezerCharts {
+  tracks?: DeezerList<unknown>;
+  albums?: DeezerList<ChartAlbum>;
+  artists?: DeezerList<ArtistInfo>;
+}
+
+// Deezer nests genres and tracks of an album in list envelopes
+type DeezerAlbum = Omit<AlbumDetails, "genres" | "tracks"> & {
+  genres?: DeezerList<Genre>;
+  tracks?: DeezerList<AlbumTrack>;
+};
+
+// Maps Deezer error body codes onto the HTTP status they stand for
+function deezerErrorStatus(code: number): number {
+  switch (code) {
+    case 4: // Quota limit exceeded
+      return 429;
+    case 700: // Service busy
+      return 503;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * Combines free text and structured fields into Deezer's advanced search
+ * syntax, e.g. `hello artist:"adele" dur_max:240`
+ */
+export function buildDeezerQuery(query: string, fields: SearchFields = {}): string {
+  const quote = (value: string) => `"${value.replace(/"/g, "")}"`;
+  const terms = [query.trim()];
+
+  if (fields.artist) terms.push(`artist:${quote(fields.artist)}`);
+  if (fields.track) terms.push(`track:${quote(fields.track)}`);
+  if (fields.album) terms.push(`album:${quote(fields.album)}`);
+  if (fields.label) terms.push(`label:${quote(fields.label)}`);
+  if (fields.durMin !== undefined) terms.push(`dur_min:${fields.durMin}`);
+  if (fields.durMax !== undefined) terms.push(`dur_max:${fields.durMax}`);
+  if (fields.bpmMin !== undefined) terms.push(`bpm_min:${fields.bpmMin}`);
+  if (fields.bpmMax !== undefined) terms.push(`bpm_max:${fields.bpmMax}`);
+
+  return terms.filter(Boolean).join(" ");
+}
+
+export interface DeezerProviderOptions {
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  breaker?: CircuitBreaker;
+}
+
+export class DeezerProvider implements MusicProvider {
+  readonly name = "deezer";
+
+  private readonly timeoutMs: number;
+  private readonly retry: RetryOptions;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(options: DeezerProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.retry = options.retry ?? {
+      retries: 2,
+      baseDelayMs: 250,
+      maxDelayMs: 2000,
+    };
+    this.breaker =
+      options.breaker ??
+      new CircuitBreaker({
+        failureThreshold: 5,
+        resetTimeoutMs: 30_000,
+        isFailure: isUpstreamFailure,
+      });
+  }
+
+  private get<T>(path: string, { signal }: ProviderRequestOptions = {}): Promise<T | null> {
+    return callUpstream(
+      async () => {
+        // Deezer API is public - no API key needed!
+        const data = await fetchWithTimeout(
+          `${DEEZER_API_URL}${path}`,
+          this.timeoutMs,
+          (response) => response.json() as Promise<T & DeezerErrorBody>,
+          { signal },
+        );
+
+        if (data.error) {
+          if (data.error.code === DEEZER_NOT_FOUND_CODE) {
+            return null;
+          }
+          throw new UpstreamHttpError(
+            deezerErrorStatus(data.error.code),
+            `Deezer API error: ${data.error.message}`,
+          );
+        }
+
+        return data;
+      },
+      { retry: this.retry, breaker: this.breaker },
+    );
+  }
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResult> {
+    const params = new URLSearchParams({
+      q: buildDeezerQuery(query, options?.fields),
+      limit: String(options?.limit ?? 10),
+    });
+    if (options?.index) params.set("index", String(options.index));
+    if (options?.order) params.set("order", options.order);
+
+    const data = await this.get<DeezerList<unknown>>(`/search?${params}`);
+
+    return {
+      data: parseTrackList(data?.data ?? [], "Deezer search"),
+      total: data?.total ?? 0,
+    };
+  }
+
+  async getTrack(id: number, options?: ProviderRequestOptions): Promise<TrackDetails | null> {
+    const track = await this.get<unknown>(`/track/${id}`, options);
+    return track === null ? null : parseTrackDetails(track, `Deezer track ${id}`);
+  }
+
+  async getArtist(id: number, options?: ProviderRequestOptions): Promise<ArtistDetails | null> {
+    const [artist, top, albums, related] = await Promise.all([
+      this.get<ArtistInfo>(`/artist/${id}`, options),
+      this.get<DeezerList<unknown>>(`/artist/${id}/top?limit=${ARTIST_TOP_TRACKS_LIMIT}`, options),
+      this.get<DeezerList<ArtistAlbum>>(
+        `/artist/${id}/albums?limit=${ARTIST_ALBUMS_LIMIT}`,
+        options,
+      ),
+      this.get<DeezerList<ArtistInfo>>(
+        `/artist/${id}/related?limit=${RELATED_ARTISTS_LIMIT}`,
+        options,
+      ),
+    ]);
+
+    if (!artist) {
+      return null;
+    }
+
+    return {
+      ...artist,
+      topTracks: parseTrackList(top?.data ?? [], `Deezer artist ${id} top tracks`),
+      albums: albums?.data ?? [],
+      related: related?.data ?? [],
+    };
+  }
+
+  async getAlbum(id: number, options?: ProviderRequestOptions): Promise<AlbumDetails | null> {
+    const album = await this.get<DeezerAlbum>(`/album/${id}`, options);
+
+    if (!album) {
+      return null;
+    }
+
+    return {
+      ...album,
+      genres: album.genres?.data ?? [],
+      tracks: album.tracks?.data ?? [],
+    };
+  }
+
+  async getCharts(genreId = 0): Promise<Charts> {
+    const charts = await this.get<DeezerCharts>(`/chart/${genreId}?limit=${CHART_LIMIT}`);
+
+    return {
+      tracks: parseTrackList(charts?.tracks?.data ?? [], `Deezer chart ${genreId}`),
+      albums: charts?.albums?.data ?? [],
+      artists: charts?.artists?.data ?? [],
+    };
+  }
+
+  async random({
+    query,
+    fields,
+    poolSize = 50,
+    random = Math.random,
+    ...exclusions
+  }: RandomOptions): Promise<TrackInfo | null> {
+    let { data } = await this.search(query, { limit: poolSize, fields });
+
+    // Many tracks have no BPM, so a filtered pool can come back empty
+    if (data.length === 0 && fields) {
+      ({ data } = await this.search(query, { limit: poolSize }));
+    }
+
+    return pickRandomTrack(data, exclusions, random);
+  }
+}
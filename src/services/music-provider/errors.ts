@@ -0,0 +1,143 @@
+import { MusicApiError } from "@/services/music-errors";
+import { isMalformedTrackError } from "@/services/track";
+
+/**
+ * Raised when the upstream catalog answers with an error status
+ */
+export class UpstreamHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message);
+    this.name = "UpstreamHttpError";
+  }
+}
+
+/**
+ * Raised when the upstream catalog does not answer within the request timeout
+ */
+export class UpstreamTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Upstream request timed out after ${timeoutMs}ms`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * Raised when the upstream catalog can't be reached at all, e.g. a DNS
+ * failure or a refused connection
+ */
+export class UpstreamNetworkError extends Error {
+  constructor(options?: ErrorOptions) {
+    super("Could not reach the upstream API", options);
+    this.name = "UpstreamNetworkError";
+  }
+}
+
+/**
+ * Raised without calling upstream while the circuit breaker is open
+ */
+export class UpstreamUnavailableError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super("Music catalog temporarily unavailable");
+    this.name = "UpstreamUnavailableError";
+  }
+}
+
+// The provider is shared between route bundles through globalThis, so errors
+// may come from another bundle's copy of these classes: match on name rather
+// than instanceof
+function isNamedError<T extends Error>(error: unknown, name: string): error is T {
+  return error instanceof Error && error.name === name;
+}
+
+/**
+ * Whether an error means the upstream catalog is unhealthy (as opposed to a
+ * bad request). These are retried, count against the circuit breaker and are
+ * reported to clients as 503.
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  if (isNamedError<UpstreamHttpError>(error, "UpstreamHttpError")) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return (
+    isNamedError(error, "UpstreamTimeoutError") ||
+    isNamedError(error, "UpstreamNetworkError") ||
+    isNamedError(error, "UpstreamUnavailableError")
+  );
+}
+
+/**
+ * How long upstream asked us to back off, if it said so
+ */
+export function upstreamRetryAfter(error: unknown): number | undefined {
+  if (
+    isNamedError<UpstreamHttpError>(error, "UpstreamHttpError") ||
+    isNamedError<UpstreamUnavailableError>(error, "UpstreamUnavailableError")
+  ) {
+    return error.retryAfterSeconds;
+  }
+  return undefined;
+}
+
+/**
+ * Whether upstream failed to answer in time
+ */
+export function isUpstreamTimeout(error: unknown): boolean {
+  return isNamedError(error, "UpstreamTimeoutError");
+}
+
+/**
+ * The status upstream answered with, for errors raised from an upstream response
+ */
+export function upstreamStatus(error: unknown): number | undefined {
+  return isNamedError<UpstreamHttpError>(error, "UpstreamHttpError") ? error.status : undefined;
+}
+
+const CATALOG_UNAVAILABLE_MESSAGE = "Music catalog temporarily unavailable";
+const CATALOG_INVALID_RESPONSE_MESSAGE = "Music catalog returned an invalid response";
+const CATALOG_RATE_LIMITED_MESSAGE = "Music catalog is rate limiting requests";
+const CATALOG_TIMEOUT_MESSAGE = "Music catalog did not answer in time";
+
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+/**
+ * Maps an error raised while talking to the catalog to its error code.
+ * Timeouts, rate limiting and outages each get their own code so the UI and
+ * the assistant can tell them apart; malformed catalog payloads count as
+ * UPSTREAM_UNAVAILABLE. MusicApiErrors are returned as is.
+ */
+export function toMusicApiError(error: unknown, fallbackMessage: string): MusicApiError {
+  if (isNamedError<MusicApiError>(error, "MusicApiError")) {
+    return error;
+  }
+
+  if (isUpstreamTimeout(error)) {
+    return new MusicApiError("TIMEOUT", CATALOG_TIMEOUT_MESSAGE);
+  }
+
+  if (isUpstreamFailure(error)) {
+    const retryAfter = upstreamRetryAfter(error) || DEFAULT_RETRY_AFTER_SECONDS;
+
+    return upstreamStatus(error) === 429
+      ? new MusicApiError("RATE_LIMITED", CATALOG_RATE_LIMITED_MESSAGE, retryAfter)
+      : new MusicApiError("UPSTREAM_UNAVAILABLE", CATALOG_UNAVAILABLE_MESSAGE, retryAfter);
+  }
+
+  if (isMalformedTrackError(error)) {
+    return new MusicApiError("UPSTREAM_UNAVAILABLE", CATALOG_INVALID_RESPONSE_MESSAGE);
+  }
+
+  // Upstream rejected the request itself, e.g. a query it can't handle
+  const status = upstreamStatus(error);
+  if (status === 404) {
+    return new MusicApiError("NOT_FOUND", fallbackMessage);
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return new MusicApiError("INVALID_QUERY", fallbackMessage);
+  }
+
+  return new MusicApiError("INTERNAL", fallbackMessage);
+}
@@ -0,0 +1,50 @@
+import type { Genre } from "./types";
+
+/**
+ * Catalog genres that have their own charts. Ids are Deezer's, which the
+ * local fixtures use as well; 0 stands for all genres.
+ */
+export const CHART_GENRES: Genre[] = [
+  { id: 0, name: "All" },
+  { id: 132, name: "Pop" },
+  { id: 116, name: "Rap/Hip Hop" },
+  { id: 152, name: "Rock" },
+  { id: 113, name: "Dance" },
+  { id: 165, name: "R&B" },
+  { id: 85, name: "Alternative" },
+  { id: 106, name: "Electro" },
+  { id: 466, name: "Folk" },
+  { id: 144, name: "Reggae" },
+  { id: 129, name: "Jazz" },
+  { id: 84, name: "Country" },
+  { id: 98, name: "Classical" },
+  { id: 464, name: "Metal" },
+  { id: 169, name: "Soul & Funk" },
+  { id: 153, name: "Blues" },
+  { id: 197, name: "Latin Music" },
+  { id: 173, name: "Films/Games" },
+  { id: 95, name: "Kids" },
+];
+
+const simplify = (value: string) =>
+  value.toLowerCase().replace(/&/g, "n").replace(/[^a-z0-9]/g, "");
+
+/**
+ * Resolves a chart genre from its id or (loosely matched) name, e.g. "132",
+ * "hip hop" or "rnb". Returns undefined for unknown genres.
+ */
+export function resolveChartGenre(value: string): Genre | undefined {
+  if (/^\d+$/.test(value)) {
+    return CHART_GENRES.find((genre) => genre.id === Number(value));
+  }
+
+  const wanted = simplify(value);
+  if (!wanted) return undefined;
+
+  return CHART_GENRES.find((genre) =>
+    genre.name
+      .split("/")
+      .map(simplify)
+      .some((part) => part.startsWith(wanted)),
+  );
+}
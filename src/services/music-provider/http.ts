@@ -0,0 +1,167 @@
+import { anySignal } from "@/lib/abort";
+import { CircuitBreaker, CircuitOpenError } from "@/lib/circuit-breaker";
+import {
+  isUpstreamFailure,
+  UpstreamHttpError,
+  UpstreamNetworkError,
+  UpstreamTimeoutError,
+  UpstreamUnavailableError,
+} from "./errors";
+
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface FetchOptions {
+  redirect?: RequestRedirect;
+  /** Cancels the request; the abort error is rethrown as is */
+  signal?: AbortSignal;
+}
+
+export interface UpstreamCallOptions {
+  retry: RetryOptions;
+  breaker: CircuitBreaker;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter, so clients retrying after the same
+ * failure don't hit upstream in lockstep
+ */
+function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+/**
+ * Whether a status is a redirect, answered with a Location header
+ */
+export function isRedirectStatus(status: number): boolean {
+  return [301, 302, 303, 307, 308].includes(status);
+}
+
+/**
+ * Fetches a URL and reads its body with `read`, aborting both after
+ * `timeoutMs`: a body that stalls halfway times out like a slow response.
+ * Non-2xx answers are turned into UpstreamHttpError, except redirects when
+ * `redirect` is "manual", which are passed to `read` to follow, and network
+ * failures into UpstreamNetworkError.
+ */
+export async function fetchWithTimeout<T>(
+  url: string,
+  timeoutMs: number,
+  read: (response: Response) => Promise<T>,
+  { redirect = "follow", signal }: FetchOptions = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      signal: anySignal([controller.signal, signal]),
+      redirect,
+    }).catch((error: unknown) => {
+      // fetch rejects with a TypeError when the request can't be made at all
+      throw error instanceof TypeError ? new UpstreamNetworkError({ cause: error }) : error;
+    });
+
+    if (!response.ok && !(redirect === "manual" && isRedirectStatus(response.status))) {
+      throw new UpstreamHttpError(
+        response.status,
+        `Upstream API error: ${response.status}`,
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+
+    return await read(response);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new UpstreamTimeoutError(timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Reads a response body, failing as soon as it turns out to be larger than
+ * `maxBytes`: up front when Content-Length says so, otherwise while it
+ * streams in, without reading the rest
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`Response body larger than ${maxBytes} bytes: ${response.url}`);
+
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Runs an upstream call behind the circuit breaker, retrying upstream
+ * failures (429, 5xx, network errors, timeouts) with jittered backoff.
+ */
+export async function callUpstream<T>(
+  operation: () => Promise<T>,
+  { retry, breaker }: UpstreamCallOptions,
+): Promise<T> {
+  try {
+    return await breaker.execute(async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await operation();
+        } catch (error) {
+          if (attempt >= retry.retries || !isUpstreamFailure(error)) {
+            throw error;
+          }
+
+          const retryAfterMs =
+            error instanceof UpstreamHttpError && error.retryAfterSeconds
+              ? Math.min(error.retryAfterSeconds * 1000, retry.maxDelayMs)
+              : 0;
+          await sleep(Math.max(retryAfterMs, backoffDelay(attempt, retry)));
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      throw new UpstreamUnavailableError(Math.ceil(error.retryAfterMs / 1000));
+    }
+    throw error;
+  }
+}
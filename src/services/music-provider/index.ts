@@ -0,0 +1,67 @@
+import { DeezerProvider } from "./deezer";
+import { LocalProvider } from "./local";
+import type { MusicProvider } from "./types";
+
+export {
+  isUpstreamFailure,
+  isUpstreamTimeout,
+  upstreamRetryAfter,
+  toMusicApiError,
+  upstreamStatus,
+  UpstreamHttpError,
+  UpstreamNetworkError,
+  UpstreamTimeoutError,
+  UpstreamUnavailableError,
+} from "./errors";
+export { CHART_GENRES, resolveChartGenre } from "./genres";
+export { MOOD_NAMES, MOODS, resolveMood, type Mood } from "./moods";
+export { SEARCH_ORDERS } from "./types";
+export type {
+  AlbumDetails,
+  AlbumInfo,
+  AlbumTrack,
+  ArtistAlbum,
+  ArtistDetails,
+  ArtistInfo,
+  ChartAlbum,
+  Charts,
+  Genre,
+  MusicProvider,
+  RandomOptions,
+  SearchFields,
+  SearchOptions,
+  SearchOrder,
+  SearchResult,
+} from "./types";
+
+const providerFactories: Record<string, () => MusicProvider> = {
+  deezer: () => new DeezerProvider(),
+  local: () => new LocalProvider(),
+};
+
+// Kept on globalThis so every route shares one provider, and with it one
+// circuit breaker (Next.js bundles each route separately)
+const globalForProvider = globalThis as unknown as {
+  musicProvider?: MusicProvider;
+};
+
+/**
+ * Returns the music provider selected by the MUSIC_PROVIDER environment
+ * variable ("deezer" or "local"). Defaults to Deezer.
+ */
+export function getMusicProvider(): MusicProvider {
+  if (!globalForProvider.musicProvider) {
+    const name = process.env.MUSIC_PROVIDER?.toLowerCase() || "deezer";
+    const createProvider = providerFactories[name];
+
+    if (!createProvider) {
+      throw new Error(
+        `Unknown MUSIC_PROVIDER "${name}". Expected one of: ${Object.keys(providerFactories).join(", ")}`,
+      );
+    }
+
+    globalForProvider.musicProvider = createProvider();
+  }
+
+  return globalForProvider.musicProvider;
+}
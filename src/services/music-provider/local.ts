@@ -0,0 +1,221 @@
+import type { TrackDetails, TrackInfo } from "@/services/track";
+import fixtureCatalog from "./fixtures/catalog.json";
+import { pickRandomTrack } from "./pick";
+import {
+  ARTIST_ALBUMS_LIMIT,
+  ARTIST_TOP_TRACKS_LIMIT,
+  CHART_LIMIT,
+  RELATED_ARTISTS_LIMIT,
+  type AlbumDetails,
+  type AlbumInfo,
+  type ArtistDetails,
+  type ArtistInfo,
+  type Charts,
+  type Genre,
+  type MusicProvider,
+  type RandomOptions,
+  type SearchOptions,
+  type SearchOrder,
+  type SearchResult,
+} from "./types";
+
+type LocalArtist = ArtistInfo & {
+  /** Ids of the artists listed as related */
+  related: number[];
+};
+
+type LocalAlbum = AlbumInfo & { record_type: string; genres: Genre[] };
+
+interface LocalCatalog {
+  tracks: TrackDetails[];
+  artists: LocalArtist[];
+  albums: LocalAlbum[];
+}
+
+// Drops the fixture-only fields so artists match ArtistInfo exactly
+const toArtistInfo = (artist: LocalArtist): ArtistInfo => ({
+  id: artist.id,
+  name: artist.name,
+  link: artist.link,
+  picture_medium: artist.picture_medium,
+  picture_big: artist.picture_big,
+  nb_album: artist.nb_album,
+  nb_fan: artist.nb_fan,
+});
+
+const normalize = (value: string) => value.toLowerCase().trim();
+
+function matchesQuery(track: TrackInfo, terms: string[]): boolean {
+  const haystack = normalize(
+    `${track.title} ${track.artist.name} ${track.album.title}`,
+  );
+  return terms.every((term) => haystack.includes(term));
+}
+
+const includesText = (value: string, expected?: string) =>
+  expected === undefined || normalize(value).includes(normalize(expected));
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+type TrackComparator = (a: TrackDetails, b: TrackDetails) => number;
+
+const byText =
+  (pick: (track: TrackDetails) => string): TrackComparator =>
+  (a, b) =>
+    pick(a).localeCompare(pick(b));
+
+const ascending: Partial<Record<string, TrackComparator>> = {
+  TRACK: byText((track) => track.title),
+  ARTIST: byText((track) => track.artist.name),
+  ALBUM: byText((track) => track.album.title),
+  RATING: (a, b) => a.rank - b.rank,
+  DURATION: (a, b) => a.duration - b.duration,
+};
+
+function orderComparator(order: SearchOrder = "RANKING"): TrackComparator {
+  const [key, direction] = order.split("_");
+  const compare = ascending[key];
+
+  if (!compare) {
+    return (a, b) => b.rank - a.rank;
+  }
+  return direction === "DESC" ? (a, b) => compare(b, a) : compare;
+}
+
+/**
+ * Serves the /api/music routes from a bundled fixture catalog so that
+ * development and test runs work without network access.
+ */
+export class LocalProvider implements MusicProvider {
+  readonly name = "local";
+
+  constructor(private readonly catalog: LocalCatalog = fixtureCatalog) {}
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResult> {
+    const { limit = 10, index = 0, order, fields = {} } = options ?? {};
+    const terms = normalize(query).split(/\s+/).filter(Boolean);
+    const matches = this.catalog.tracks
+      .filter(
+        (track) =>
+          matchesQuery(track, terms) &&
+          includesText(track.artist.name, fields.artist) &&
+          includesText(track.title, fields.track) &&
+          includesText(track.album.title, fields.album) &&
+          includesText(this.albumLabel(track.album.id), fields.label) &&
+          inRange(track.duration, fields.durMin, fields.durMax) &&
+          inRange(track.bpm, fields.bpmMin, fields.bpmMax),
+      )
+      .sort(orderComparator(order));
+
+    return {
+      data: matches.slice(index, index + limit),
+      total: matches.length,
+    };
+  }
+
+  private albumLabel(albumId: number): string {
+    return this.catalog.albums.find((album) => album.id === albumId)?.label ?? "";
+  }
+
+  async getTrack(id: number): Promise<TrackDetails | null> {
+    return this.catalog.tracks.find((track) => track.id === id) ?? null;
+  }
+
+  async getArtist(id: number): Promise<ArtistDetails | null> {
+    const artist = this.catalog.artists.find((candidate) => candidate.id === id);
+
+    if (!artist) {
+      return null;
+    }
+
+    return {
+      ...toArtistInfo(artist),
+      topTracks: this.catalog.tracks
+        .filter((track) => track.artist.id === id)
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, ARTIST_TOP_TRACKS_LIMIT),
+      albums: this.catalog.albums
+        .filter((album) => album.artist.id === id)
+        .slice(0, ARTIST_ALBUMS_LIMIT),
+      related: this.catalog.artists
+        .filter((candidate) => artist.related.includes(candidate.id))
+        .slice(0, RELATED_ARTISTS_LIMIT)
+        .map(toArtistInfo),
+    };
+  }
+
+  async getAlbum(id: number): Promise<AlbumDetails | null> {
+    const album = this.catalog.albums.find((candidate) => candidate.id === id);
+
+    if (!album) {
+      return null;
+    }
+
+    const tracks = this.catalog.tracks.filter((track) => track.album.id === id);
+
+    return {
+      ...album,
+      duration: tracks.reduce((total, track) => total + track.duration, 0),
+      nb_tracks: tracks.length,
+      tracks: tracks.map((track) => ({
+        id: track.id,
+        title: track.title,
+        title_short: track.title_short,
+        duration: track.duration,
+        preview: track.preview,
+        link: track.link,
+        rank: track.rank,
+        artist: { id: track.artist.id, name: track.artist.name },
+      })),
+    };
+  }
+
+  async getCharts(genreId = 0): Promise<Charts> {
+    const albums = this.catalog.albums.filter(
+      (album) => genreId === 0 || album.genres.some((genre) => genre.id === genreId),
+    );
+    const albumIds = new Set(albums.map((album) => album.id));
+    const tracks = this.catalog.tracks
+      .filter((track) => albumIds.has(track.album.id))
+      .sort((a, b) => b.rank - a.rank);
+    // Albums and artists are ranked by the popularity of their best track
+    const bestRank = (matches: (track: TrackDetails) => boolean) =>
+      tracks.find(matches)?.rank ?? 0;
+
+    return {
+      tracks: tracks.slice(0, CHART_LIMIT),
+      albums: albums
+        .map((album) => ({ album, rank: bestRank((track) => track.album.id === album.id) }))
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, CHART_LIMIT)
+        .map(({ album }) => ({
+          id: album.id,
+          title: album.title,
+          link: album.link,
+          cover_medium: album.cover_medium,
+          artist: album.artist,
+        })),
+      artists: this.catalog.artists
+        .filter((artist) => albums.some((album) => album.artist.id === artist.id))
+        .map((artist) => ({ artist, rank: bestRank((track) => track.artist.id === artist.id) }))
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, CHART_LIMIT)
+        .map(({ artist }) => toArtistInfo(artist)),
+    };
+  }
+
+  async random({
+    query,
+    fields,
+    poolSize = 50,
+    random = Math.random,
+    ...exclusions
+  }: RandomOptions): Promise<TrackInfo | null> {
+    const { data } = await this.search(query, { limit: poolSize, fields });
+    // Mood queries rarely match a small fixture catalog, so fall back to all of it
+    const pool = data.length > 0 ? data : this.catalog.tracks;
+
+    return pickRandomTrack(pool, exclusions, random);
+  }
+}
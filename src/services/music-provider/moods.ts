@@ -0,0 +1,51 @@
+import { z } from "zod";
+import moodCatalog from "./moods.json";
+import { CHART_GENRES } from "./genres";
+
+const moodSchema = z.object({
+  description: z.string(),
+  /** Free-text queries the random track is searched with */
+  queries: z.array(z.string().min(1)).min(1),
+  /** Chart genre names that suit the mood */
+  genres: z
+    .array(
+      z.string().refine(
+        (name) => CHART_GENRES.some((genre) => genre.name === name),
+        (name) => ({ message: `Unknown genre "${name}"` }),
+      ),
+    )
+    .default([]),
+  bpm: z
+    .object({
+      min: z.number().positive().optional(),
+      max: z.number().positive().optional(),
+    })
+    .optional(),
+  energy: z.enum(["low", "medium", "high"]),
+});
+
+const moodCatalogSchema = z.record(
+  z.string().regex(/^[a-z]+$/, "Mood names must be lowercase words"),
+  moodSchema,
+);
+
+export type Mood = z.infer<typeof moodSchema> & { name: string };
+
+/**
+ * Moods available to /api/music/random, loaded from moods.json. The file is
+ * validated on load so a bad edit fails fast instead of yielding odd picks.
+ */
+export const MOODS: Mood[] = Object.entries(moodCatalogSchema.parse(moodCatalog)).map(
+  ([name, mood]) => ({ name, ...mood }),
+);
+
+export const MOOD_NAMES = MOODS.map((mood) => mood.name);
+
+/**
+ * Resolves a mood by name, case-insensitively. Returns undefined for unknown
+ * moods.
+ */
+export function resolveMood(value: string): Mood | undefined {
+  const wanted = value.trim().toLowerCase();
+  return MOODS.find((mood) => mood.name === wanted);
+}
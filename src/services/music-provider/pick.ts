@@ -0,0 +1,22 @@
+import type { TrackInfo } from "@/services/track";
+import { pickRandom, type RandomSource } from "@/lib/random";
+import type { RandomOptions } from "./types";
+
+/**
+ * Picks a random track from a candidate pool, skipping excluded tracks and
+ * artists. The artist constraint is relaxed first when it would leave nothing
+ * to pick; the pool is only reused in full once every track was excluded.
+ */
+export function pickRandomTrack<T extends TrackInfo>(
+  pool: T[],
+  exclusions: Pick<RandomOptions, "excludeIds" | "excludeArtistIds">,
+  random: RandomSource = Math.random,
+): T | null {
+  const excludedIds = new Set(exclusions.excludeIds);
+  const excludedArtistIds = new Set(exclusions.excludeArtistIds);
+  const unseen = pool.filter((track) => !excludedIds.has(track.id));
+  const fresh = unseen.filter((track) => !excludedArtistIds.has(track.artist.id));
+
+  const candidates = fresh.length > 0 ? fresh : unseen.length > 0 ? unseen : pool;
+  return pickRandom(candidates, random) ?? null;
+}
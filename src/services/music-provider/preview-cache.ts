@@ -0,0 +1,67 @@
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DiskCache, type DiskCacheEntry } from "@/lib/disk-cache";
+import { fetchWithTimeout, readBodyWithLimit } from "./http";
+import { getMusicProvider } from "./index";
+
+// Preview audio doesn't change; the TTL only bounds how long a track that was
+// pulled from the catalog keeps playing
+const PREVIEW_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 15_000;
+
+// Concurrent requests for the same preview share one download
+const globalForPreviews = globalThis as unknown as {
+  previewDownloads?: Map<number, Promise<DiskCacheEntry | null>>;
+};
+
+const downloads = (globalForPreviews.previewDownloads ??= new Map<
+  number,
+  Promise<DiskCacheEntry | null>
+>());
+
+const cache = new DiskCache({
+  dir: process.env.PREVIEW_CACHE_DIR || path.join(tmpdir(), "music-previews"),
+  maxEntries: 500,
+  ttlMs: PREVIEW_CACHE_TTL_MS,
+});
+
+const cacheKey = (id: number) => `${id}.mp3`;
+
+async function downloadPreview(id: number): Promise<DiskCacheEntry | null> {
+  // Resolved by id every time, since the signed preview URLs expire
+  const track = await getMusicProvider().getTrack(id);
+
+  if (!track?.preview) {
+    return null;
+  }
+
+  const audio = await fetchWithTimeout(track.preview, DOWNLOAD_TIMEOUT_MS, (response) =>
+    readBodyWithLimit(response, MAX_PREVIEW_BYTES),
+  );
+
+  if (audio.length === 0) {
+    throw new Error(`Empty preview for track ${id}`);
+  }
+
+  return cache.set(cacheKey(id), audio);
+}
+
+/**
+ * Returns the preview audio of a track from the disk cache, downloading it
+ * on a miss. Resolves to null when the track doesn't exist or has no preview.
+ */
+export async function getCachedPreview(id: number): Promise<DiskCacheEntry | null> {
+  const cached = await cache.get(cacheKey(id));
+  if (cached) {
+    return cached;
+  }
+
+  let download = downloads.get(id);
+  if (!download) {
+    download = downloadPreview(id).finally(() => downloads.delete(id));
+    downloads.set(id, download);
+  }
+
+  return download;
+}
@@ -0,0 +1,88 @@
+import { createSeededRandom, generateSeed, pickRandom } from "@/lib/random";
+import { MusicApiError } from "@/services/music-errors";
+import { MAX_SEARCH_LIMIT } from "@/services/music-search-params";
+import type { RandomSongOptions } from "@/services/music-service";
+import type { TrackInfo } from "@/services/track";
+import { CHART_GENRES, resolveChartGenre } from "./genres";
+import { MOOD_NAMES, MOODS, resolveMood, type Mood } from "./moods";
+import { getMusicProvider } from "./index";
+
+export const MAX_SEED_LENGTH = 64;
+export const MAX_EXCLUDED_IDS = 100;
+const POOL_SIZE = 50;
+
+/**
+ * A random pick, with the mood and seed it was drawn with
+ */
+export interface RandomSong {
+  track: TrackInfo | null;
+  mood: string;
+  energy: Mood["energy"];
+  genre?: string;
+  /** Replays this pick when passed back */
+  seed: string;
+}
+
+/**
+ * Picks a random song matching a mood and/or genre, skipping excluded tracks
+ * and artists. Throws an INVALID_QUERY MusicApiError for unknown moods or
+ * genres and out-of-bounds parameters.
+ */
+export async function pickRandomSong(options: RandomSongOptions): Promise<RandomSong> {
+  const moodName = options.mood?.trim();
+  const genreName = options.genre?.trim();
+  const seed = options.seed?.trim() || generateSeed();
+  const excludeIds = options.exclude ?? [];
+  const excludeArtistIds = options.excludeArtists ?? [];
+
+  const requestedMood = moodName ? resolveMood(moodName) : undefined;
+  if (moodName && !requestedMood) {
+    throw new MusicApiError(
+      "INVALID_QUERY",
+      `Unknown mood "${moodName}". Expected one of: ${MOOD_NAMES.join(", ")}`,
+    );
+  }
+
+  const genre = genreName ? resolveChartGenre(genreName) : undefined;
+  if (genreName && (!genre || genre.id === 0)) {
+    throw new MusicApiError(
+      "INVALID_QUERY",
+      `Unknown genre "${genreName}". Expected one of: ${CHART_GENRES.slice(1)
+        .map((g) => g.name)
+        .join(", ")}`,
+    );
+  }
+
+  if (excludeIds.length > MAX_EXCLUDED_IDS || excludeArtistIds.length > MAX_EXCLUDED_IDS) {
+    throw new MusicApiError(
+      "INVALID_QUERY",
+      `exclude and excludeArtists must be comma-separated lists of at most ${MAX_EXCLUDED_IDS} ids`,
+    );
+  }
+
+  if (seed.length > MAX_SEED_LENGTH) {
+    throw new MusicApiError("INVALID_QUERY", `seed must be at most ${MAX_SEED_LENGTH} characters`);
+  }
+
+  // Every draw below comes from the seed, so a seed replays the same pick
+  const random = createSeededRandom(seed);
+
+  // Without a mood, pick one that suits the genre (if any)
+  const genreMoods = genre ? MOODS.filter((mood) => mood.genres.includes(genre.name)) : [];
+  const mood = requestedMood ?? pickRandom(genreMoods.length > 0 ? genreMoods : MOODS, random)!;
+  const moodQuery = pickRandom(mood.queries, random)!;
+  const query = genre ? `${genre.name.split("/")[0]} ${moodQuery}` : moodQuery;
+
+  // Draw from the mood's results, skipping recent picks
+  const track = await getMusicProvider().random({
+    query,
+    fields: mood.bpm && { bpmMin: mood.bpm.min, bpmMax: mood.bpm.max },
+    // Widen the pool so excluded tracks don't leave too little to pick from
+    poolSize: Math.min(POOL_SIZE + excludeIds.length, MAX_SEARCH_LIMIT),
+    excludeIds,
+    excludeArtistIds,
+    random,
+  });
+
+  return { track, mood: mood.name, energy: mood.energy, genre: genre?.name, seed };
+}
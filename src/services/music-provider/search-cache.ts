@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import { LruCache } from "@/lib/lru-cache";
+import {
+  toMusicSearchParams,
+  type MusicSearchPage,
+  type ParsedMusicSearchRequest,
+} from "@/services/music-search-params";
+import { getMusicProvider } from "./index";
+
+export interface CachedSearchResponse {
+  /** Serialized MusicSearchPage, stored as sent so the ETag always matches */
+  body: string;
+  etag: string;
+}
+
+export interface CachedSearch {
+  response: CachedSearchResponse;
+  cacheStatus: "HIT" | "MISS";
+}
+
+export const SEARCH_CACHE_TTL_SECONDS = 300;
+
+// Next.js bundles each route separately, so the cache lives on globalThis to
+// be shared between /api/music/search and /api/music/cache. Entries are
+// promises, so a search still in flight is shared too.
+const globalForSearchCache = globalThis as unknown as {
+  musicSearchCache?: LruCache<string, Promise<CachedSearchResponse>>;
+};
+
+const searchCache = (globalForSearchCache.musicSearchCache ??= new LruCache<
+  string,
+  Promise<CachedSearchResponse>
+>({
+  maxEntries: 500,
+  ttlMs: SEARCH_CACHE_TTL_SECONDS * 1000,
+}));
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().trim().replace(/\s+/g, " ");
+
+/**
+ * Builds the cache key for a search. Queries differing only in case or
+ * whitespace ("LoFi ", "lofi") share an entry.
+ */
+export function searchCacheKey(request: ParsedMusicSearchRequest): string {
+  const fields = Object.entries(request.fields ?? {})
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => [
+      field,
+      typeof value === "string" ? normalizeText(value) : value,
+    ])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+  return JSON.stringify([
+    normalizeText(request.query ?? ""),
+    request.limit,
+    request.index,
+    request.order ?? null,
+    fields,
+  ]);
+}
+
+async function search(request: ParsedMusicSearchRequest): Promise<CachedSearchResponse> {
+  const { query = "", ...options } = request;
+  const { data, total } = await getMusicProvider().search(query, options);
+  const nextIndex = request.index + data.length;
+  const page: MusicSearchPage = {
+    data,
+    total,
+    index: request.index,
+    limit: request.limit,
+    next:
+      data.length > 0 && nextIndex < total
+        ? `/api/music/search?${toMusicSearchParams({ ...request, index: nextIndex })}`
+        : null,
+  };
+  const body = JSON.stringify(page);
+
+  return {
+    body,
+    etag: `"${createHash("sha1").update(body).digest("base64url")}"`,
+  };
+}
+
+/**
+ * Searches through the configured provider, serving repeated queries from
+ * an in-process LRU+TTL cache. Identical searches made while one is in
+ * flight wait for it instead of calling upstream again; failed searches
+ * aren't cached.
+ */
+export async function cachedSearch(
+  request: ParsedMusicSearchRequest,
+): Promise<CachedSearch> {
+  const key = searchCacheKey(request);
+  const cached = searchCache.get(key);
+
+  if (cached) {
+    return { response: await cached, cacheStatus: "HIT" };
+  }
+
+  const response = search(request);
+  searchCache.set(key, response);
+  response.catch(() => searchCache.delete(key));
+
+  return { response: await response, cacheStatus: "MISS" };
+}
+
+export function getSearchCacheStats() {
+  return searchCache.stats();
+}
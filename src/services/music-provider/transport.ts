@@ -0,0 +1,110 @@
+import { abortable } from "@/lib/abort";
+import { MusicApiError } from "@/services/music-errors";
+import {
+  parseMusicSearchParams,
+  toMusicSearchParams,
+  type MusicSearchPage,
+} from "@/services/music-search-params";
+import type { MusicTransport } from "@/services/music-service";
+import { searchBatch } from "./batch-search";
+import { getRankedCharts } from "./charts";
+import { toMusicApiError } from "./errors";
+import { CHART_GENRES, resolveChartGenre } from "./genres";
+import { getMusicProvider } from "./index";
+import { pickRandomSong } from "./random-song";
+import { cachedSearch } from "./search-cache";
+
+// Fails like the matching route would, so callers handle one error contract
+async function call<T>(
+  operation: () => Promise<T>,
+  signal: AbortSignal | undefined,
+  fallbackMessage: string,
+): Promise<T> {
+  try {
+    signal?.throwIfAborted();
+    return await abortable(operation(), signal);
+  } catch (error) {
+    throw signal?.aborted ? error : toMusicApiError(error, fallbackMessage);
+  }
+}
+
+/**
+ * A transport calling the configured provider directly, for server
+ * components, route handlers and jobs. Requests go through the same caches
+ * and validation as the /api/music routes; wrap it with createMusicService.
+ *
+ * Aborting rejects the call right away. Lookups by id cancel their upstream
+ * requests too; searches, random picks and charts let theirs finish, since
+ * they may be shared with other callers through the caches.
+ */
+export function createProviderTransport(): MusicTransport {
+  return {
+    async searchPage(request, { signal } = {}) {
+      const parsed = parseMusicSearchParams(toMusicSearchParams(request));
+
+      if (!parsed.success) {
+        throw new MusicApiError("INVALID_QUERY", parsed.error);
+      }
+
+      const { response } = await call(
+        () => cachedSearch(parsed.request),
+        signal,
+        "Failed to search for music",
+      );
+      return JSON.parse(response.body) as MusicSearchPage;
+    },
+
+    searchBatch(requests, { signal } = {}) {
+      return call(() => searchBatch(requests), signal, "Failed to search for music");
+    },
+
+    async random(options, { signal } = {}) {
+      const { track } = await call(
+        () => pickRandomSong(options),
+        signal,
+        "Failed to get random music",
+      );
+      return track;
+    },
+
+    getTrack(id, { signal } = {}) {
+      return call(
+        () => getMusicProvider().getTrack(id, { signal }),
+        signal,
+        "Failed to get track details",
+      );
+    },
+
+    getArtist(id, { signal } = {}) {
+      return call(
+        () => getMusicProvider().getArtist(id, { signal }),
+        signal,
+        "Failed to get artist",
+      );
+    },
+
+    getAlbum(id, { signal } = {}) {
+      return call(
+        () => getMusicProvider().getAlbum(id, { signal }),
+        signal,
+        "Failed to get album",
+      );
+    },
+
+    async getCharts(genreParam, { signal } = {}) {
+      const genre =
+        genreParam === undefined || genreParam === ""
+          ? CHART_GENRES[0]
+          : resolveChartGenre(String(genreParam));
+
+      if (!genre) {
+        throw new MusicApiError(
+          "INVALID_QUERY",
+          `Unknown genre "${genreParam}". Expected one of: ${CHART_GENRES.map((g) => g.name).join(", ")}`,
+        );
+      }
+
+      return call(() => getRankedCharts(genre), signal, "Failed to get charts");
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import type { TrackDetails, TrackInfo } from "@/services/track";
+import type { RandomSource } from "@/lib/random";
+
+export interface ArtistInfo {
+  id: number;
+  name: string;
+  link: string;
+  picture_medium: string;
+  picture_big: string;
+  nb_album: number;
+  nb_fan: number;
+}
+
+/**
+ * An album as listed in an artist's discography
+ */
+export interface ArtistAlbum {
+  id: number;
+  title: string;
+  link: string;
+  cover_medium: string;
+  release_date: string;
+  record_type: string;
+}
+
+export interface Genre {
+  id: number;
+  name: string;
+}
+
+/**
+ * A track as listed in an album's tracklist
+ */
+export interface AlbumTrack {
+  id: number;
+  title: string;
+  title_short: string;
+  duration: number;
+  preview: string;
+  link: string;
+  rank: number;
+  artist: {
+    id: number;
+    name: string;
+  };
+}
+
+/**
+ * Album with tracklist, genres and total duration, as returned by
+ * /api/music/album/[id]
+ */
+export interface AlbumDetails extends AlbumInfo {
+  genres: Genre[];
+  /** Total duration in seconds */
+  duration: number;
+  nb_tracks: number;
+  tracks: AlbumTrack[];
+}
+
+/**
+ * An album as listed in a chart
+ */
+export interface ChartAlbum {
+  id: number;
+  title: string;
+  link: string;
+  cover_medium: string;
+  artist: {
+    id: number;
+    name: string;
+  };
+}
+
+/**
+ * Top tracks, albums and artists, best first
+ */
+export interface Charts {
+  tracks: TrackInfo[];
+  albums: ChartAlbum[];
+  artists: ArtistInfo[];
+}
+
+export const CHART_LIMIT = 10;
+
+export const ARTIST_TOP_TRACKS_LIMIT = 5;
+export const ARTIST_ALBUMS_LIMIT = 12;
+export const RELATED_ARTISTS_LIMIT = 6;
+
+/**
+ * Artist profile with top tracks, discography and related artists, as
+ * returned by /api/music/artist/[id]
+ */
+export interface ArtistDetails extends ArtistInfo {
+  topTracks: TrackInfo[];
+  albums: ArtistAlbum[];
+  related: ArtistInfo[];
+}
+
+export interface AlbumInfo {
+  id: number;
+  title: string;
+  link: string;
+  cover_medium: string;
+  cover_big: string;
+  release_date: string;
+  label: string;
+  artist: {
+    id: number;
+    name: string;
+  };
+}
+
+export const SEARCH_ORDERS = [
+  "RANKING",
+  "TRACK_ASC",
+  "TRACK_DESC",
+  "ARTIST_ASC",
+  "ARTIST_DESC",
+  "ALBUM_ASC",
+  "ALBUM_DESC",
+  "RATING_ASC",
+  "RATING_DESC",
+  "DURATION_ASC",
+  "DURATION_DESC",
+] as const;
+
+export type SearchOrder = (typeof SEARCH_ORDERS)[number];
+
+/**
+ * Structured search criteria, mirroring Deezer's advanced search syntax.
+ * Durations are in seconds.
+ */
+export interface SearchFields {
+  artist?: string;
+  track?: string;
+  album?: string;
+  label?: string;
+  durMin?: number;
+  durMax?: number;
+  bpmMin?: number;
+  bpmMax?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Offset of the first result, for paging */
+  index?: number;
+  order?: SearchOrder;
+  fields?: SearchFields;
+}
+
+export interface SearchResult {
+  data: TrackInfo[];
+  total: number;
+}
+
+export interface RandomOptions {
+  /** Free-text query used to build the candidate pool */
+  query: string;
+  /** Narrows the candidate pool, e.g. to a mood's BPM range */
+  fields?: SearchFields;
+  /** How many candidates to draw the random track from */
+  poolSize?: number;
+  /** Tracks that must not be picked again, e.g. recently served ones */
+  excludeIds?: number[];
+  /** Artists to avoid, so consecutive picks come from different artists */
+  excludeArtistIds?: number[];
+  /** Source of randomness, seeded for reproducible picks */
+  random?: RandomSource;
+}
+
+export interface ProviderRequestOptions {
+  /** Cancels the upstream requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * A music catalog the /api/music routes can be served from.
+ *
+ * Lookups by id resolve to `null` when the catalog has no such entry; any
+ * other failure (network, upstream error) is thrown.
+ */
+export interface MusicProvider {
+  readonly name: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult>;
+  getTrack(id: number, options?: ProviderRequestOptions): Promise<TrackDetails | null>;
+  getArtist(id: number, options?: ProviderRequestOptions): Promise<ArtistDetails | null>;
+  getAlbum(id: number, options?: ProviderRequestOptions): Promise<AlbumDetails | null>;
+  random(options: RandomOptions): Promise<TrackInfo | null>;
+  /** Charts for one genre id, or across all genres when omitted */
+  getCharts(genreId?: number): Promise<Charts>;
+}
@@ -0,0 +1,202 @@
+import { z } from "zod";
+import type { MusicErrorBody } from "@/services/music-errors";
+import type { TrackInfo } from "@/services/track";
+import {
+  SEARCH_ORDERS,
+  type SearchFields,
+  type SearchOptions,
+} from "@/services/music-provider/types";
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 100;
+export const MAX_BATCH_SEARCHES = 20;
+
+/**
+ * A search against /api/music/search: free text, structured fields, or both
+ */
+export interface MusicSearchRequest extends SearchOptions {
+  query?: string;
+}
+
+/**
+ * Paged response envelope of /api/music/search
+ */
+export interface MusicSearchPage {
+  data: TrackInfo[];
+  total: number;
+  index: number;
+  limit: number;
+  /** URL of the next page, or null on the last one */
+  next: string | null;
+}
+
+/**
+ * Outcome of one search of a /api/music/search/batch request, echoing the
+ * search it answers
+ */
+export type MusicSearchBatchResult =
+  | { request: MusicSearchRequest; data: TrackInfo[]; total: number }
+  | { request: MusicSearchRequest; error: MusicErrorBody };
+
+/**
+ * Response of /api/music/search/batch: one result per search, in order
+ */
+export interface MusicSearchBatch {
+  results: MusicSearchBatchResult[];
+}
+
+// Query string parameter name for each structured field
+const FIELD_PARAMS: Record<keyof SearchFields, string> = {
+  artist: "artist",
+  track: "track",
+  album: "album",
+  label: "label",
+  durMin: "dur_min",
+  durMax: "dur_max",
+  bpmMin: "bpm_min",
+  bpmMax: "bpm_max",
+};
+
+const optionalText = z.string().trim().min(1).optional();
+const optionalBound = z.coerce.number().int().nonnegative().optional();
+
+const isInverted = (min: number | undefined, max: number | undefined) =>
+  min !== undefined && max !== undefined && min > max;
+
+// Prefixed with the parameter at fault, when there is one
+const describeIssue = ({ path, message }: z.ZodIssue) =>
+  path.length > 0 ? `${path.join(".")}: ${message}` : message;
+
+const searchParamsSchema = z
+  .object({
+    q: optionalText,
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SEARCH_LIMIT)
+      .default(DEFAULT_SEARCH_LIMIT),
+    index: z.coerce.number().int().nonnegative().default(0),
+    order: z.enum(SEARCH_ORDERS).optional(),
+    artist: optionalText,
+    track: optionalText,
+    album: optionalText,
+    label: optionalText,
+    dur_min: optionalBound,
+    dur_max: optionalBound,
+    bpm_min: optionalBound,
+    bpm_max: optionalBound,
+  })
+  .refine(
+    (params) =>
+      params.q !== undefined ||
+      Object.values(FIELD_PARAMS).some(
+        (name) => params[name as keyof typeof params] !== undefined,
+      ),
+    { message: "Query parameter or at least one search field is required" },
+  )
+  .refine((params) => !isInverted(params.dur_min, params.dur_max), {
+    message: "must not be greater than dur_max",
+    path: ["dur_min"],
+  })
+  .refine((params) => !isInverted(params.bpm_min, params.bpm_max), {
+    message: "must not be greater than bpm_max",
+    path: ["bpm_min"],
+  });
+
+export type ParsedMusicSearchRequest = MusicSearchRequest & {
+  limit: number;
+  index: number;
+};
+
+type ParseResult =
+  | { success: true; request: ParsedMusicSearchRequest }
+  | { success: false; error: string };
+
+/**
+ * Parses and validates the query string of a /api/music/search request
+ */
+export function parseMusicSearchParams(searchParams: URLSearchParams): ParseResult {
+  const raw: Record<string, string> = {};
+  searchParams.forEach((value, key) => {
+    raw[key] = value;
+  });
+
+  const parsed = searchParamsSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error.issues[0]) };
+  }
+
+  const { q, limit, index, order, ...params } = parsed.data;
+  const fields: SearchFields = {};
+
+  for (const [field, name] of Object.entries(FIELD_PARAMS)) {
+    const value = params[name as keyof typeof params];
+    if (value !== undefined) {
+      Object.assign(fields, { [field]: value });
+    }
+  }
+
+  return {
+    success: true,
+    request: { query: q, limit, index, order, fields },
+  };
+}
+
+/**
+ * Serializes a search request into /api/music/search query parameters
+ */
+export function toMusicSearchParams(request: MusicSearchRequest): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (request.query) params.set("q", request.query);
+  if (request.limit !== undefined) params.set("limit", String(request.limit));
+  if (request.index) params.set("index", String(request.index));
+  if (request.order) params.set("order", request.order);
+
+  for (const [field, name] of Object.entries(FIELD_PARAMS)) {
+    const value = request.fields?.[field as keyof SearchFields];
+    if (value !== undefined && value !== "") {
+      params.set(name, String(value));
+    }
+  }
+
+  return params;
+}
+
+// Shape of each search in a batch body. Values are checked by
+// parseMusicSearchParams, like a single search's query string.
+const batchSearchSchema = z.object({
+  query: z.string().optional(),
+  limit: z.number().optional(),
+  index: z.number().optional(),
+  order: z.string().optional(),
+  fields: z.record(z.union([z.string(), z.number()])).optional(),
+});
+
+const batchBodySchema = z.object({
+  searches: z
+    .array(batchSearchSchema)
+    .min(1, "searches must contain at least one search")
+    .max(MAX_BATCH_SEARCHES, `searches must contain at most ${MAX_BATCH_SEARCHES} searches`),
+});
+
+type BatchParseResult =
+  | { success: true; requests: MusicSearchRequest[] }
+  | { success: false; error: string };
+
+/**
+ * Parses the JSON body of a /api/music/search/batch request:
+ * `{ searches: MusicSearchRequest[] }`. Only the shape is checked here; each
+ * search is validated on its own, so one bad search doesn't fail the batch.
+ */
+export function parseMusicSearchBatch(body: unknown): BatchParseResult {
+  const parsed = batchBodySchema.safeParse(body);
+
+  if (!parsed.success) {
+    return { success: false, error: describeIssue(parsed.error.issues[0]) };
+  }
+
+  return { success: true, requests: parsed.data.searches as MusicSearchRequest[] };
+}
@@ -0,0 +1,198 @@
+import { isAbortError } from "@/lib/abort";
+import type { RankedCharts } from "@/services/music-provider/charts";
+import type {
+  AlbumDetails,
+  ArtistDetails,
+  SearchOptions,
+} from "@/services/music-provider/types";
+import type {
+  MusicSearchBatchResult,
+  MusicSearchPage,
+  MusicSearchRequest,
+} from "@/services/music-search-params";
+import type { TrackDetails, TrackInfo } from "@/services/track";
+
+export interface MusicRequestOptions {
+  /** Aborts the request, e.g. when the user cancels a generation */
+  signal?: AbortSignal;
+}
+
+export interface RandomSongOptions {
+  /** One of the moods in the mood catalog, e.g. "calm" */
+  mood?: string;
+  /** Genre name or id, e.g. "jazz" */
+  genre?: string;
+  /** Replays the same pick when given the same seed */
+  seed?: string;
+  /** Track ids not to pick, e.g. recently played ones */
+  exclude?: number[];
+  /** Artist ids not to pick, to keep consecutive picks diverse */
+  excludeArtists?: number[];
+}
+
+/**
+ * How the music service reaches the catalog: over HTTP through the
+ * /api/music routes (browser, scripts) or by calling the provider directly
+ * (server). Transports return validated payloads and throw MusicApiError
+ * for failures the caller can act on; lookups by id resolve to null when the
+ * catalog has no such entry.
+ */
+export interface MusicTransport {
+  searchPage(request: MusicSearchRequest, options?: MusicRequestOptions): Promise<MusicSearchPage>;
+  searchBatch(
+    requests: MusicSearchRequest[],
+    options?: MusicRequestOptions,
+  ): Promise<MusicSearchBatchResult[]>;
+  random(options: RandomSongOptions, requestOptions?: MusicRequestOptions): Promise<TrackInfo | null>;
+  getTrack(id: number, options?: MusicRequestOptions): Promise<TrackDetails | null>;
+  getArtist(id: number, options?: MusicRequestOptions): Promise<ArtistDetails | null>;
+  getAlbum(id: number, options?: MusicRequestOptions): Promise<AlbumDetails | null>;
+  getCharts(genre?: string | number, options?: MusicRequestOptions): Promise<RankedCharts>;
+}
+
+export type MusicService = ReturnType<typeof createMusicService>;
+
+// Logs failures where they happen, but not aborts: those are expected
+async function logged<T>(description: string, request: Promise<T>): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error(`Error ${description}:`, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates the music service on top of a transport. The service works the same
+ * wherever it runs; only the transport differs between the browser and the
+ * server.
+ */
+export function createMusicService(transport: MusicTransport) {
+  /**
+   * Fetches one page of search results. Accepts free text, structured fields
+   * (artist, track, duration and BPM ranges...) or both.
+   */
+  function searchMusicPage(
+    request: MusicSearchRequest,
+    options?: MusicRequestOptions,
+  ): Promise<MusicSearchPage> {
+    return logged("searching music", transport.searchPage(request, options));
+  }
+
+  /**
+   * Searches for music tracks
+   */
+  async function searchMusic(
+    query: string,
+    searchOptions: SearchOptions = {},
+    options?: MusicRequestOptions,
+  ): Promise<TrackInfo[]> {
+    const page = await searchMusicPage({ query, ...searchOptions }, options);
+    return page.data || [];
+  }
+
+  /**
+   * Runs many searches in one request, e.g. for "play these five songs".
+   * Resolves to one result per search, in order; a failed search carries its
+   * error instead of failing the batch.
+   */
+  function searchMusicBatch(
+    requests: MusicSearchRequest[],
+    options?: MusicRequestOptions,
+  ): Promise<MusicSearchBatchResult[]> {
+    return logged("searching music in batch", transport.searchBatch(requests, options));
+  }
+
+  /**
+   * Gets a random song to surprise users, optionally matching a mood or genre
+   * and skipping excluded tracks and artists
+   */
+  function getRandomSong(
+    randomOptions: RandomSongOptions = {},
+    options?: MusicRequestOptions,
+  ): Promise<TrackInfo | null> {
+    return logged("getting random song", transport.random(randomOptions, options));
+  }
+
+  /**
+   * Gets full metadata for a track, including a freshly signed preview URL.
+   * Resolves to null when the track doesn't exist.
+   */
+  function getTrack(id: number, options?: MusicRequestOptions): Promise<TrackDetails | null> {
+    return logged("getting track", transport.getTrack(id, options));
+  }
+
+  /**
+   * Gets an artist profile with top tracks, albums and related artists.
+   * Resolves to null when the artist doesn't exist.
+   */
+  function getArtist(id: number, options?: MusicRequestOptions): Promise<ArtistDetails | null> {
+    return logged("getting artist", transport.getArtist(id, options));
+  }
+
+  /**
+   * Finds an artist by name, preferring an exact (case-insensitive) match
+   * over the most popular partial one
+   */
+  async function findArtist(
+    name: string,
+    options?: MusicRequestOptions,
+  ): Promise<ArtistDetails | null> {
+    const tracks = await searchMusic("", { fields: { artist: name }, limit: 25 }, options);
+    const normalizedName = name.trim().toLowerCase();
+    const match =
+      tracks.find((track) => track.artist.name.toLowerCase() === normalizedName) ?? tracks[0];
+
+    return match ? getArtist(match.artist.id, options) : null;
+  }
+
+  /**
+   * Gets an album with its full tracklist, genres and total duration.
+   * Resolves to null when the album doesn't exist.
+   */
+  function getAlbum(id: number, options?: MusicRequestOptions): Promise<AlbumDetails | null> {
+    return logged("getting album", transport.getAlbum(id, options));
+  }
+
+  /**
+   * Finds an album by title, optionally narrowed down to one artist
+   */
+  async function findAlbum(
+    title: string,
+    artist?: string,
+    options?: MusicRequestOptions,
+  ): Promise<AlbumDetails | null> {
+    const tracks = await searchMusic("", { fields: { album: title, artist }, limit: 25 }, options);
+    const normalizedTitle = title.trim().toLowerCase();
+    const match =
+      tracks.find((track) => track.album.title.toLowerCase() === normalizedTitle) ?? tracks[0];
+
+    return match ? getAlbum(match.album.id, options) : null;
+  }
+
+  /**
+   * Gets the top tracks, albums and artists with their rank movement, for all
+   * genres or one genre (id or name, e.g. "rock")
+   */
+  function getCharts(
+    genre?: string | number,
+    options?: MusicRequestOptions,
+  ): Promise<RankedCharts> {
+    return logged("getting charts", transport.getCharts(genre, options));
+  }
+
+  return {
+    searchMusicPage,
+    searchMusic,
+    searchMusicBatch,
+    getRandomSong,
+    getTrack,
+    getArtist,
+    findArtist,
+    getAlbum,
+    findAlbum,
+    getCharts,
+  };
+}
@@ -0,0 +1,177 @@
+import { isAbortError } from "@/lib/abort";
+import { mapWithConcurrency } from "@/lib/pool";
+import { musicErrorCode, type MusicErrorCode } from "@/services/music-errors";
+import type { TrackInfo } from "@/services/track";
+
+/** How close to the target duration counts as done, in seconds */
+export const DURATION_TOLERANCE = 60;
+
+// Moves tried before settling for the closest total found
+const MAX_IMPROVEMENT_ROUNDS = 50;
+// Re-selections after dropping tracks that share an ISRC
+const MAX_ISRC_ROUNDS = 3;
+const ISRC_LOOKUP_CONCURRENCY = 4;
+// Failures after which the catalog won't answer more lookups any time soon
+const LOOKUP_STOPPING_ERRORS: MusicErrorCode[] = ["RATE_LIMITED", "UPSTREAM_UNAVAILABLE"];
+
+/**
+ * How long a generated playlist should be: a total duration in seconds, a
+ * number of tracks, or a duration with at most that many tracks
+ */
+export interface PlaylistTarget {
+  duration?: number;
+  count?: number;
+}
+
+export interface DiversityRules {
+  /** Most tracks one artist may have in the playlist */
+  maxPerArtist: number;
+  /** Looks up a track's ISRC, to drop the same recording released twice; skipped when omitted */
+  isrc?: (track: TrackInfo) => Promise<string | null>;
+}
+
+// One step towards the target duration: add a track, drop one, or both
+interface Move {
+  add?: TrackInfo;
+  drop?: TrackInfo;
+  total: number;
+}
+
+/**
+ * Picks tracks from `candidates`, best first, for the target: the first ones
+ * allowed by the artist limit for a count, or a set whose durations add up
+ * to within DURATION_TOLERANCE of a duration. Duration targets are filled
+ * greedily, then improved by adding, dropping or swapping one track at a time
+ * while that gets closer, preferring better candidates on ties. Falls short
+ * of the target when there aren't enough candidates. The picks keep the
+ * candidates' order.
+ */
+export function selectTracks(
+  candidates: TrackInfo[],
+  { duration, count = Infinity }: PlaylistTarget,
+  { maxPerArtist }: Pick<DiversityRules, "maxPerArtist">,
+): TrackInfo[] {
+  const picked = new Set<TrackInfo>();
+  const artistCounts = new Map<number, number>();
+  const fitsArtist = (track: TrackInfo, leaving?: TrackInfo) =>
+    (artistCounts.get(track.artist.id) ?? 0) - (leaving?.artist.id === track.artist.id ? 1 : 0) <
+    maxPerArtist;
+  const pick = (track: TrackInfo) => {
+    picked.add(track);
+    artistCounts.set(track.artist.id, (artistCounts.get(track.artist.id) ?? 0) + 1);
+  };
+  const unpick = (track: TrackInfo) => {
+    picked.delete(track);
+    artistCounts.set(track.artist.id, artistCounts.get(track.artist.id)! - 1);
+  };
+  const inCandidateOrder = () => candidates.filter((track) => picked.has(track));
+
+  let total = 0;
+  for (const track of candidates) {
+    if (picked.size >= count) break;
+    if (duration !== undefined && total >= duration - DURATION_TOLERANCE) break;
+    if (!fitsArtist(track)) continue;
+    if (duration !== undefined && total + track.duration > duration + DURATION_TOLERANCE) continue;
+
+    pick(track);
+    total += track.duration;
+  }
+
+  if (duration === undefined) {
+    return inCandidateOrder();
+  }
+
+  const gap = (newTotal: number) => Math.abs(duration - newTotal);
+
+  for (let round = 0; round < MAX_IMPROVEMENT_ROUNDS && gap(total) > DURATION_TOLERANCE; round++) {
+    let best = null as Move | null;
+    const consider = (add: TrackInfo | undefined, drop: TrackInfo | undefined) => {
+      const newTotal = total + (add?.duration ?? 0) - (drop?.duration ?? 0);
+      if (gap(newTotal) < (best ? gap(best.total) : gap(total))) {
+        best = { add, drop, total: newTotal };
+      }
+    };
+
+    // Candidates come best first, so on equal gaps the better one wins
+    for (const track of candidates) {
+      if (picked.has(track)) {
+        consider(undefined, track);
+        continue;
+      }
+      if (picked.size < count && fitsArtist(track)) consider(track, undefined);
+      for (const leaving of picked) {
+        if (fitsArtist(track, leaving)) consider(track, leaving);
+      }
+    }
+
+    if (!best) break;
+    if (best.drop) unpick(best.drop);
+    if (best.add) pick(best.add);
+    total = best.total;
+  }
+
+  return inCandidateOrder();
+}
+
+/**
+ * Picks tracks for the target like selectTracks, then, when the rules can
+ * look up ISRCs, drops tracks sharing an ISRC with a better pick (e.g. the
+ * same recording on an album and a compilation) and picks again without
+ * them. ISRCs are looked up for picked tracks only, and on a best-effort
+ * basis: a failed lookup leaves the ISRC unknown, and once the catalog is
+ * rate limiting or down no more lookups are made. Aborts still reject.
+ */
+export async function generatePlaylistTracks(
+  candidates: TrackInfo[],
+  target: PlaylistTarget,
+  rules: DiversityRules,
+): Promise<TrackInfo[]> {
+  const isrcs = new Map<number, string | null>();
+  const excluded = new Set<number>();
+  let picks: TrackInfo[] = [];
+  let lookupsStopped = false;
+
+  const lookUp = async (track: TrackInfo, isrc: NonNullable<DiversityRules["isrc"]>) => {
+    if (lookupsStopped) return null;
+    try {
+      return await isrc(track);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Couldn't look up the ISRC of track ${track.id}:`, error);
+      const code = musicErrorCode(error);
+      if (code && LOOKUP_STOPPING_ERRORS.includes(code)) lookupsStopped = true;
+      return null;
+    }
+  };
+
+  for (let round = 0; round < MAX_ISRC_ROUNDS; round++) {
+    picks = selectTracks(
+      candidates.filter(({ id }) => !excluded.has(id)),
+      target,
+      rules,
+    );
+    const { isrc } = rules;
+    if (!isrc) break;
+
+    await mapWithConcurrency(
+      picks.filter(({ id }) => !isrcs.has(id)),
+      ISRC_LOOKUP_CONCURRENCY,
+      async (track) => isrcs.set(track.id, await lookUp(track, isrc)),
+    );
+
+    const seen = new Set<string>();
+    const duplicates = picks.filter(({ id }) => {
+      const isrc = isrcs.get(id);
+      if (!isrc) return false;
+      if (seen.has(isrc)) return true;
+      seen.add(isrc);
+      return false;
+    });
+    if (duplicates.length === 0) break;
+
+    duplicates.forEach(({ id }) => excluded.add(id));
+  }
+
+  // Out of rounds: drop whatever duplicates the last one found
+  return picks.filter(({ id }) => !excluded.has(id));
+}
@@ -0,0 +1,121 @@
+import {
+  playlistCovers,
+  type NewPlaylist,
+  type Playlist,
+  type PlaylistChanges,
+} from "@/services/playlist";
+
+/**
+ * Where playlists are kept. The app uses IndexedDB; anything else (a server,
+ * an in-memory store for scripts) only has to implement this.
+ */
+export interface PlaylistRepository {
+  /** All playlists, most recently updated first */
+  list(): Promise<Playlist[]>;
+  /** The playlist with this ID, or null when there's none */
+  get(id: string): Promise<Playlist | null>;
+  create(playlist: NewPlaylist): Promise<Playlist>;
+  /**
+   * Applies the changes `change` returns for the stored playlist, in one
+   * transaction. Resolves to the updated playlist, or null when there's none
+   * with this ID.
+   */
+  update(id: string, change: (playlist: Playlist) => PlaylistChanges): Promise<Playlist | null>;
+  /** Resolves to false when there was no playlist with this ID */
+  delete(id: string): Promise<boolean>;
+}
+
+const DATABASE_NAME = "music-player";
+const DATABASE_VERSION = 1;
+const PLAYLIST_STORE = "playlists";
+
+// Wraps an IndexedDB request in a promise
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(PLAYLIST_STORE, { keyPath: "id" });
+  };
+  return settle(request);
+}
+
+/**
+ * A repository keeping playlists in the browser's IndexedDB, so they survive
+ * reloads without an account. Browser only.
+ */
+export function createIndexedDbPlaylistRepository(): PlaylistRepository {
+  let database: Promise<IDBDatabase> | null = null;
+
+  async function store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    database ??= openDatabase().catch((error) => {
+      // Let the next call try again, e.g. after the user allowed storage
+      database = null;
+      throw error;
+    });
+    return (await database).transaction(PLAYLIST_STORE, mode).objectStore(PLAYLIST_STORE);
+  }
+
+  return {
+    async list() {
+      const playlists = await settle<Playlist[]>((await store("readonly")).getAll());
+      return playlists.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async get(id) {
+      const playlist = await settle<Playlist | undefined>((await store("readonly")).get(id));
+      return playlist ?? null;
+    },
+
+    async create({ name, description, tracks }) {
+      const now = new Date().toISOString();
+      const playlist: Playlist = {
+        id: crypto.randomUUID(),
+        name,
+        description,
+        covers: playlistCovers(tracks),
+        tracks,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await settle((await store("readwrite")).add(playlist));
+      return playlist;
+    },
+
+    async update(id, change) {
+      const playlists = await store("readwrite");
+      const current = await settle<Playlist | undefined>(playlists.get(id));
+      if (!current) return null;
+
+      const updated = { ...current, ...change(current), updatedAt: new Date().toISOString() };
+      updated.covers = playlistCovers(updated.tracks);
+
+      await settle(playlists.put(updated));
+      return updated;
+    },
+
+    async delete(id) {
+      const playlists = await store("readwrite");
+      if ((await settle(playlists.count(id))) === 0) return false;
+
+      await settle(playlists.delete(id));
+      return true;
+    },
+  };
+}
+
+let playlistRepository: PlaylistRepository | null = null;
+
+/**
+ * The app's playlist repository
+ */
+export function getPlaylistRepository(): PlaylistRepository {
+  playlistRepository ??= createIndexedDbPlaylistRepository();
+  return playlistRepository;
+}
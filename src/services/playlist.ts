@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { trackSchema, type Track } from "@/services/track";
+
+// Album covers tiled into a playlist's cover
+const MOSAIC_SIZE = 4;
+
+/**
+ * A playlist the user saved, kept in the browser
+ */
+export const playlistSchema = z.object({
+  id: z.string().describe("Playlist ID"),
+  name: z.string().min(1).describe("Playlist name"),
+  description: z.string().optional().describe("What the playlist is for, e.g. \"Late-night coding\""),
+  covers: z
+    .array(z.string())
+    .describe(`Up to ${MOSAIC_SIZE} album cover URLs, tiled as the playlist cover`),
+  tracks: z.array(trackSchema).describe("Tracks in play order"),
+  createdAt: z.string().describe("When the playlist was created (ISO 8601)"),
+  updatedAt: z.string().describe("When the playlist was last changed (ISO 8601)"),
+});
+
+export type Playlist = z.infer<typeof playlistSchema>;
+
+export type NewPlaylist = Pick<Playlist, "name" | "tracks"> & Pick<Partial<Playlist>, "description">;
+
+/**
+ * What can be changed on a saved playlist; the covers follow the tracks
+ */
+export type PlaylistChanges = Partial<Pick<Playlist, "name" | "description" | "tracks">>;
+
+/**
+ * The playlist's cover mosaic: the first distinct album covers, in play order
+ */
+export function playlistCovers(tracks: Pick<Track, "albumCover">[]): string[] {
+  const covers = new Set<string>();
+
+  for (const { albumCover } of tracks) {
+    if (albumCover) covers.add(albumCover);
+    if (covers.size === MOSAIC_SIZE) break;
+  }
+
+  return [...covers];
+}
+
+/**
+ * Adds tracks at `position` (the end by default), skipping ones the playlist
+ * already has
+ */
+export function insertTracks(tracks: Track[], added: Track[], position = tracks.length): Track[] {
+  const ids = new Set(tracks.map(({ id }) => id));
+  const fresh = added.filter(({ id }) => {
+    if (ids.has(id)) return false;
+    ids.add(id);
+    return true;
+  });
+  const index = Math.min(Math.max(position, 0), tracks.length);
+
+  return [...tracks.slice(0, index), ...fresh, ...tracks.slice(index)];
+}
@@ -0,0 +1,62 @@
+import type { TrackInfo } from "@/services/track";
+
+/** How many recent picks are never served again */
+const MAX_RECENT_TRACKS = 50;
+/** How many of the latest artists the next pick avoids */
+const MAX_RECENT_ARTISTS = 3;
+
+const STORAGE_KEY = "music:random-history";
+
+export interface RandomHistory {
+  /** Recently served track ids, most recent last */
+  trackIds: number[];
+  /** Artists of the latest picks, most recent last */
+  artistIds: number[];
+}
+
+const emptyHistory = (): RandomHistory => ({ trackIds: [], artistIds: [] });
+
+/**
+ * Recent random picks for this browser session, so "surprise me" doesn't
+ * serve the same track or artist twice in a row. Kept in sessionStorage,
+ * which is scoped to the tab and survives reloads.
+ */
+export function getRandomHistory(): RandomHistory {
+  if (typeof window === "undefined") {
+    return emptyHistory();
+  }
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "null");
+    if (Array.isArray(stored?.trackIds) && Array.isArray(stored?.artistIds)) {
+      return stored;
+    }
+  } catch {
+    // Unreadable or not JSON: start a fresh history
+  }
+
+  return emptyHistory();
+}
+
+/**
+ * Adds a random pick to the session history
+ */
+export function recordRandomPick(track: TrackInfo): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const { trackIds, artistIds } = getRandomHistory();
+  const history: RandomHistory = {
+    trackIds: [...trackIds.filter((id) => id !== track.id), track.id].slice(-MAX_RECENT_TRACKS),
+    artistIds: [...artistIds.filter((id) => id !== track.artist.id), track.artist.id].slice(
+      -MAX_RECENT_ARTISTS,
+    ),
+  };
+
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Storage may be full or disabled; repeats are harmless
+  }
+}
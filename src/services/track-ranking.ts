@@ -0,0 +1,183 @@
+import type { TrackInfo } from "@/services/track";
+
+/**
+ * What the user asked for: free text and/or structured fields
+ */
+export interface RankingQuery {
+  query?: string;
+  artist?: string;
+  track?: string;
+  album?: string;
+}
+
+/**
+ * A search result with its relevance score, best first
+ */
+export interface RankedTrack {
+  track: TrackInfo;
+  score: number;
+  /** Alternate versions the track looks like, e.g. "karaoke" or "remix" */
+  versions: string[];
+}
+
+// Alternate versions that often outrank the original in catalog results,
+// penalized unless the query asks for them
+const VERSION_PATTERNS: { version: string; pattern: RegExp; penalty: number }[] = [
+  { version: "karaoke", pattern: /\bkaraoke\b/, penalty: 50 },
+  {
+    version: "tribute",
+    pattern: /\btribute\b|\bmade famous by\b|\bin the style of\b|\boriginally (performed|recorded) by\b/,
+    penalty: 50,
+  },
+  { version: "cover", pattern: /\bcovers?\b/, penalty: 30 },
+  { version: "remix", pattern: /\bremix(ed)?\b|\bsped up\b|\bslowed\b|\bnightcore\b/, penalty: 25 },
+  { version: "instrumental", pattern: /\binstrumental\b/, penalty: 25 },
+  { version: "live", pattern: /\blive\b/, penalty: 15 },
+  { version: "acoustic", pattern: /\bacoustic\b/, penalty: 10 },
+];
+
+// Added when the query asks for the version a track is, e.g. "... live"
+const REQUESTED_VERSION_BONUS = 15;
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// Title without version suffixes: "Song (feat. X) - Remastered 2011" is "song"
+const baseTitle = (title: string) =>
+  normalize(title.replace(/\s*[([].*?[)\]]/g, "").replace(/\s+-\s+.*$/, ""));
+
+const tokens = (value: string) => normalize(value).split(" ").filter(Boolean);
+
+// Whether `phrase` appears in `text` as whole words
+const containsPhrase = (text: string, phrase: string) =>
+  phrase !== "" && ` ${text} `.includes(` ${phrase} `);
+
+// Full marks for an exact match, half when one contains the other, and up to
+// a third for shared words
+function matchScore(actual: string, requested: string | undefined, weight: number): number {
+  const wantedTokens = tokens(requested ?? "");
+  if (wantedTokens.length === 0) return 0;
+
+  const wanted = wantedTokens.join(" ");
+  if (actual === wanted) return weight;
+  if (containsPhrase(actual, wanted) || containsPhrase(wanted, actual)) return weight / 2;
+
+  const actualTokens = new Set(actual.split(" "));
+  const overlap = wantedTokens.filter((token) => actualTokens.has(token)).length;
+  return (overlap / wantedTokens.length) * (weight / 3);
+}
+
+function scoreTrack(track: TrackInfo, query: RankingQuery, requestedText: string) {
+  const title = baseTitle(track.title);
+  const artist = normalize(track.artist.name);
+  const album = normalize(track.album.title);
+  let score = 0;
+
+  score += matchScore(title, query.track, 40);
+  score += matchScore(artist, query.artist, 30);
+  score += matchScore(album, query.album, 10);
+
+  const queryTokens = tokens(query.query ?? "");
+  if (queryTokens.length > 0) {
+    const text = queryTokens.join(" ");
+    const trackTokens = new Set([title, artist, album].join(" ").split(" "));
+    const covered = queryTokens.filter((token) => trackTokens.has(token)).length;
+
+    score += (covered / queryTokens.length) * 30;
+    if (containsPhrase(text, title)) score += 10;
+    if (containsPhrase(text, artist)) score += 10;
+  }
+
+  const described = normalize(`${track.title} ${track.album.title} ${track.artist.name}`);
+  const versions = VERSION_PATTERNS.filter(({ pattern }) => pattern.test(described));
+  for (const { pattern, penalty } of versions) {
+    score += pattern.test(requestedText) ? REQUESTED_VERSION_BONUS : -penalty;
+  }
+
+  // Popularity breaks ties: Deezer ranks go up to about a million
+  if (track.rank > 0) {
+    score += Math.min(10, (Math.log10(track.rank) * 10) / 6);
+  }
+
+  return { score, versions: versions.map(({ version }) => version) };
+}
+
+/**
+ * Re-ranks search results against what was asked for: exact title and
+ * artist matches first, karaoke, tribute, cover and remix versions last
+ * (first when asked for), and popularity to break ties. Equal scores keep the
+ * catalog's order.
+ */
+export function rankTracks(tracks: TrackInfo[], query: RankingQuery): RankedTrack[] {
+  const requestedText = normalize(
+    [query.query, query.track, query.album].filter(Boolean).join(" "),
+  );
+
+  return tracks
+    .map((track, index) => ({ track, index, ...scoreTrack(track, query, requestedText) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ track, score, versions }) => ({ track, score, versions }));
+}
+
+/**
+ * Drops repeat versions of the same song (same title and artist, e.g. a
+ * remaster next to the original), keeping the first, best-ranked one
+ */
+export function distinctTracks(ranked: RankedTrack[]): RankedTrack[] {
+  const seen = new Set<string>();
+
+  return ranked.filter(({ track }) => {
+    const key = `${baseTitle(track.title)}\n${normalize(track.artist.name)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// How close to the best score a different artist's song must be for the
+// search to count as ambiguous: title and artist matches have to tie, with
+// popularity leaving a little slack
+const AMBIGUITY_MARGIN = 2;
+// Only songs about as popular as the best match compete with it, and
+// little-known uploads never do
+const MAX_POPULARITY_RATIO = 3;
+const MIN_AMBIGUOUS_RANK = 100_000;
+
+/**
+ * The songs a search can't choose between, one per artist, best first: e.g.
+ * "Hello" matches Adele's and Lionel Richie's equally well. Only songs titled
+ * exactly as asked and about as popular as the best match count. Empty when
+ * the best match stands out or the query names an artist.
+ */
+export function ambiguousMatches(
+  ranked: RankedTrack[],
+  query: RankingQuery,
+  limit: number,
+): RankedTrack[] {
+  const [best] = ranked;
+  const requestedTitle = normalize(query.track || query.query || "");
+  if (!best || !requestedTitle || tokens(query.artist ?? "").length > 0) return [];
+
+  const seenArtists = new Set<string>();
+  const contenders = ranked.filter(({ track, score, versions }) => {
+    const artist = normalize(track.artist.name);
+    if (score < best.score - AMBIGUITY_MARGIN || seenArtists.has(artist)) return false;
+    if (baseTitle(track.title) !== requestedTitle) return false;
+    if (track.rank < MIN_AMBIGUOUS_RANK || track.rank * MAX_POPULARITY_RATIO < best.track.rank) {
+      return false;
+    }
+    // Alternate versions are a "did you mean", not a different song
+    if (versions.length > 0 && best.versions.length === 0) return false;
+    seenArtists.add(artist);
+    return true;
+  });
+
+  // The best match has to be one of them, or it simply wins
+  return contenders[0] === best && contenders.length > 1 ? contenders.slice(0, limit) : [];
+}
@@ -0,0 +1,171 @@
+import { z } from "zod";
+
+/**
+ * A track as the catalog returns it. Validated where payloads enter the app
+ * (provider responses, API responses), so a malformed one fails loudly
+ * instead of rendering a half-empty card.
+ */
+export const trackInfoSchema = z.object({
+  id: z.number().int().positive(),
+  title: z.string().min(1),
+  title_short: z.string(),
+  artist: z.object({
+    id: z.number().int().positive(),
+    name: z.string().min(1),
+    picture_medium: z.string().default(""),
+  }),
+  album: z.object({
+    id: z.number().int().positive(),
+    title: z.string(),
+    cover_medium: z.string().default(""),
+  }),
+  duration: z.number().nonnegative(),
+  /** Empty when the track has no preview */
+  preview: z.string(),
+  link: z.string(),
+  rank: z.number(),
+});
+
+export const trackContributorSchema = z.object({
+  id: z.number().int().positive(),
+  name: z.string(),
+  picture_medium: z.string().default(""),
+  role: z.string(),
+});
+
+/**
+ * Full track metadata, as returned by /api/music/track/[id]
+ */
+export const trackDetailsSchema = trackInfoSchema.extend({
+  isrc: z.string(),
+  release_date: z.string(),
+  bpm: z.number(),
+  /** Replay gain in dB */
+  gain: z.number(),
+  explicit_lyrics: z.boolean(),
+  contributors: z.array(trackContributorSchema),
+});
+
+export type TrackInfo = z.infer<typeof trackInfoSchema>;
+export type TrackContributor = z.infer<typeof trackContributorSchema>;
+export type TrackDetails = z.infer<typeof trackDetailsSchema>;
+
+/**
+ * The app's track model, flattened for tools and components
+ */
+export const trackSchema = z.object({
+  id: z
+    .number()
+    .describe("Track ID, used to stream the preview through the app"),
+  title: z.string().describe("Song title"),
+  artist: z.string().describe("Artist name"),
+  album: z.string().describe("Album name"),
+  duration: z.number().describe("Duration in seconds"),
+  preview: z.string().describe("Preview URL (30 seconds)"),
+  link: z.string().describe("Full song link"),
+  artistImage: z.string().optional().describe("Artist image URL"),
+  albumCover: z.string().optional().describe("Album cover URL"),
+  rank: z.number().optional().describe("Song popularity rank"),
+  artistId: z.number().optional().describe("Artist ID"),
+  albumId: z
+    .number()
+    .optional()
+    .describe("Album ID, lets the user open the full album"),
+});
+
+export type Track = z.infer<typeof trackSchema>;
+
+/**
+ * Maps a catalog track to the app's track model
+ */
+export function toTrack(info: TrackInfo): Track {
+  return {
+    id: info.id,
+    title: info.title,
+    artist: info.artist.name,
+    album: info.album.title,
+    duration: info.duration,
+    preview: info.preview,
+    link: info.link,
+    artistImage: info.artist.picture_medium || undefined,
+    albumCover: info.album.cover_medium || undefined,
+    rank: info.rank,
+    artistId: info.artist.id,
+    albumId: info.album.id,
+  };
+}
+
+/**
+ * Thrown when a track payload doesn't match the expected shape
+ */
+export class MalformedTrackError extends Error {
+  constructor(source: string, reason: string) {
+    super(`Malformed track from ${source} (${reason})`);
+    this.name = "MalformedTrackError";
+  }
+}
+
+// Checked by name: route bundles can each carry their own copy of the class
+export function isMalformedTrackError(error: unknown): error is MalformedTrackError {
+  return error instanceof Error && error.name === "MalformedTrackError";
+}
+
+const describeIssue = ({ path, message }: z.ZodIssue) =>
+  path.length > 0 ? `${path.join(".")}: ${message}` : message;
+
+function parseWith<T extends z.ZodTypeAny>(schema: T, value: unknown, source: string): z.infer<T> {
+  const parsed = schema.safeParse(value);
+
+  if (!parsed.success) {
+    throw new MalformedTrackError(source, describeIssue(parsed.error.issues[0]));
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Validates a track payload. `source` names where it came from, for the
+ * error message.
+ */
+export function parseTrack(value: unknown, source: string): TrackInfo {
+  return parseWith(trackInfoSchema, value, source);
+}
+
+/**
+ * Validates a full track metadata payload
+ */
+export function parseTrackDetails(value: unknown, source: string): TrackDetails {
+  return parseWith(trackDetailsSchema, value, source);
+}
+
+/**
+ * Validates a list of track payloads. Malformed entries are dropped (and
+ * logged) so one bad track doesn't sink a whole result list; the list is only
+ * rejected when none of its tracks are valid.
+ */
+export function parseTrackList(value: unknown, source: string): TrackInfo[] {
+  if (!Array.isArray(value)) {
+    throw new MalformedTrackError(source, "expected a list of tracks");
+  }
+
+  const tracks: TrackInfo[] = [];
+  let firstError: string | undefined;
+
+  value.forEach((entry, index) => {
+    const parsed = trackInfoSchema.safeParse(entry);
+
+    if (parsed.success) {
+      tracks.push(parsed.data);
+    } else {
+      const reason = `${index}.${describeIssue(parsed.error.issues[0])}`;
+      firstError ??= reason;
+      console.warn(`Dropped malformed track from ${source}: ${reason}`);
+    }
+  });
+
+  if (tracks.length === 0 && firstError) {
+    throw new MalformedTrackError(source, firstError);
+  }
+
+  return tracks;
+}